@@ -1,9 +1,11 @@
 import React, { ReactNode } from "react";
 import { render, screen, fireEvent, act } from "@testing-library/react";
-import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach, MockInstance } from "vitest";
 import { ToastProvider } from "../context";
 import { ToastContainer, Toaster } from "../components";
+import { createToastStore } from "../store";
 import { useToast } from "../useToast";
+import { ToastType } from "../types";
 
 beforeEach(() => {
   vi.useFakeTimers();
@@ -40,6 +42,11 @@ function TestToastComponent() {
   );
 }
 
+// Toasts are not live regions (the provider announces them), so they are found by their data attributes
+function getToastElement(type?: ToastType) {
+  return document.querySelector<HTMLElement>(type ? `[data-toast-id][data-type='${type}']` : "[data-toast-id]")!;
+}
+
 describe("ToastContainer", () => {
   it("should render nothing when no toasts", () => {
     render(
@@ -175,6 +182,97 @@ describe("ToastContainer", () => {
     expect(screen.queryByText("Success toast")).not.toBeInTheDocument();
   });
 
+  it("should pause auto-dismiss while hovered and resume with the remaining time", () => {
+    render(
+      <ToastProvider config={{ defaultDuration: 1000 }}>
+        <TestToastComponent />
+        <ToastContainer position="top-right" />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+
+    const toastElement = getToastElement();
+    fireEvent.mouseEnter(toastElement);
+
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+
+    expect(screen.getByText("Success toast")).toBeInTheDocument();
+
+    fireEvent.mouseLeave(toastElement);
+
+    // 400ms remaining + 300ms exit animation
+    act(() => {
+      vi.advanceTimersByTime(699);
+    });
+
+    expect(screen.getByText("Success toast")).toBeInTheDocument();
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+
+    expect(screen.queryByText("Success toast")).not.toBeInTheDocument();
+  });
+
+  it("should render a progress bar that shrinks with the remaining time", () => {
+    // jsdom's native requestAnimationFrame is not always replaced by the fake timers
+    vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) =>
+      setTimeout(() => callback(Date.now()), 16),
+    );
+    vi.stubGlobal("cancelAnimationFrame", (frame: number) => clearTimeout(frame));
+
+    render(
+      <ToastProvider config={{ defaultDuration: 1000, showProgress: true }}>
+        <TestToastComponent />
+        <ToastContainer position="top-right" />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+
+    const progressBar = getToastElement().querySelector("[aria-hidden='true']:last-child") as HTMLElement;
+    expect(progressBar.style.width).toBe("100%");
+
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+
+    // Updated once per animation frame, so allow one frame of drift
+    expect(parseFloat(progressBar.style.width)).toBeCloseTo(50, -1);
+
+    vi.unstubAllGlobals();
+  });
+
+  it("should render a counter badge for grouped toasts", () => {
+    function GroupedToast() {
+      const toast = useToast();
+      return <button onClick={() => toast.error("Connection lost", { groupKey: "connection" })}>Fail</button>;
+    }
+
+    render(
+      <ToastProvider>
+        <GroupedToast />
+        <ToastContainer position="top-right" />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Fail"));
+    expect(screen.queryByText("×1")).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Fail"));
+    fireEvent.click(screen.getByText("Fail"));
+
+    expect(screen.getAllByText("Connection lost")).toHaveLength(1);
+    expect(screen.getByText("×3")).toBeInTheDocument();
+  });
+
   it("should handle multiple toasts correctly", () => {
     render(
       <ToastProvider config={{ maxToasts: 3 }}>
@@ -293,6 +391,1208 @@ describe("Toaster", () => {
   });
 });
 
+describe("Portal rendering", () => {
+  let host: HTMLElement;
+
+  beforeEach(() => {
+    host = document.createElement("div");
+    document.body.appendChild(host);
+  });
+
+  afterEach(() => {
+    host.remove();
+  });
+
+  it("should portal containers into document.body by default", () => {
+    const { container } = render(
+      <ToastProvider>
+        <div style={{ transform: "translateZ(0)", overflow: "hidden" }}>
+          <TestToastComponent />
+          <Toaster />
+        </div>
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+
+    const region = screen.getByLabelText("Notificaciones top-right");
+    expect(region.parentElement).toBe(document.body);
+    expect(container).not.toContainElement(region);
+  });
+
+  it("should portal into the given element or the element returned by a getter", () => {
+    function App() {
+      const ref = React.useRef<HTMLDivElement>(null);
+
+      return (
+        <ToastProvider>
+          <TestToastComponent />
+          <div data-testid="modal" ref={ref} />
+          <Toaster container={() => ref.current} />
+          <Toaster container={host} toasterId="host" />
+        </ToastProvider>
+      );
+    }
+
+    render(<App />);
+    fireEvent.click(screen.getByText("Show Success"));
+
+    expect(screen.getByTestId("modal")).toContainElement(screen.getByLabelText("Notificaciones top-right"));
+    expect(host).toBeEmptyDOMElement();
+  });
+
+  it("should render inline with container={false}", () => {
+    render(
+      <ToastProvider>
+        <TestToastComponent />
+        <div data-testid="inline">
+          <Toaster container={false} />
+        </div>
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+
+    expect(screen.getByTestId("inline")).toContainElement(screen.getByLabelText("Notificaciones top-right"));
+  });
+
+  it("should render into a shadow root with its own keyframes", () => {
+    const shadowRoot = host.attachShadow({ mode: "open" });
+    const store = createToastStore();
+
+    render(
+      <ToastProvider store={store}>
+        <Toaster container={shadowRoot} />
+      </ToastProvider>,
+    );
+
+    act(() => {
+      store.add("Inside the widget", { type: "loading" });
+    });
+
+    expect(shadowRoot.querySelector("[role='region']")).toHaveTextContent("Inside the widget");
+    expect(shadowRoot.getElementById("complete-react-toast-styles")).not.toBeNull();
+  });
+
+  it("should render into the body of an iframe", () => {
+    const iframe = document.createElement("iframe");
+    host.appendChild(iframe);
+    const frameDocument = iframe.contentDocument!;
+    const store = createToastStore();
+
+    const { unmount } = render(
+      <ToastProvider store={store}>
+        <Toaster container={() => frameDocument.body} />
+      </ToastProvider>,
+    );
+
+    act(() => {
+      store.add("Inside the frame");
+    });
+
+    expect(frameDocument.body).toHaveTextContent("Inside the frame");
+    expect(frameDocument.head.querySelector("#complete-react-toast-styles")).not.toBeNull();
+
+    // Unmount while the frame still exists: removing the host destroys its document
+    unmount();
+  });
+});
+
+describe("Container limits and ordering", () => {
+  it("should show at most `max` toasts and pause the hidden ones", () => {
+    const store = createToastStore({ defaultDuration: 1000 });
+
+    render(
+      <ToastProvider store={store}>
+        <ToastContainer position="top-right" max={2} />
+      </ToastProvider>,
+    );
+
+    act(() => {
+      ["First", "Second", "Third"].forEach((message) => store.add(message));
+    });
+
+    expect(screen.queryByText("First")).not.toBeInTheDocument();
+    expect(screen.getByText("Second")).toBeInTheDocument();
+    expect(screen.getByText("Third")).toBeInTheDocument();
+    expect(store.getTimerState(store.getSnapshot().toasts[2].id).paused).toBe(true);
+
+    // The visible toasts expire; the hidden one takes their place with its full duration
+    act(() => {
+      vi.advanceTimersByTime(1300);
+    });
+
+    expect(screen.getByText("First")).toBeInTheDocument();
+    expect(getToastElement()).not.toHaveAttribute("data-state", "removing");
+  });
+
+  it("should apply gap, offset and reverseOrder", () => {
+    const store = createToastStore();
+
+    render(
+      <ToastProvider store={store}>
+        <ToastContainer position="bottom-left" gap={20} offset={{ x: 40, y: 60 }} reverseOrder />
+      </ToastProvider>,
+    );
+
+    act(() => {
+      store.add("Older", { position: "bottom-left" });
+      store.add("Newer", { position: "bottom-left" });
+    });
+
+    const container = screen.getByLabelText("Notificaciones bottom-left");
+    const items = Array.from(container.querySelectorAll<HTMLElement>("[data-toast-id]"));
+    expect(container).toHaveStyle({ gap: "20px", left: "40px", bottom: "60px" });
+    expect(items.map((item) => item.textContent)).toEqual([
+      expect.stringContaining("Older"),
+      expect.stringContaining("Newer"),
+    ]);
+
+    // The container gap is the only spacing between toasts: they add no margins of their own
+    const spacing = (item: HTMLElement) =>
+      parseFloat(getComputedStyle(container).gap) +
+      parseFloat(getComputedStyle(item).marginTop || "0") +
+      parseFloat(getComputedStyle(item).marginBottom || "0");
+    items.forEach((item) => expect(spacing(item)).toBe(20));
+  });
+
+  it("should configure containers independently", () => {
+    const store = createToastStore();
+
+    render(
+      <ToastProvider store={store}>
+        <div data-testid="sidebar">
+          <ToastContainer position="top-left" max={1} />
+        </div>
+        <div data-testid="page">
+          <ToastContainer position="top-right" />
+        </div>
+      </ToastProvider>,
+    );
+
+    act(() => {
+      ["A", "B"].forEach((message) => store.add(`Sidebar ${message}`, { position: "top-left" }));
+      ["A", "B"].forEach((message) => store.add(`Page ${message}`, { position: "top-right" }));
+    });
+
+    expect(screen.getByTestId("sidebar").querySelectorAll("[data-toast-id]")).toHaveLength(1);
+    expect(screen.getByTestId("page").querySelectorAll("[data-toast-id]")).toHaveLength(2);
+  });
+});
+
+describe("Stack layout", () => {
+  let offsetHeight: MockInstance | undefined;
+
+  afterEach(() => {
+    offsetHeight?.mockRestore();
+  });
+
+  function renderStack() {
+    offsetHeight = vi.spyOn(HTMLElement.prototype, "offsetHeight", "get").mockReturnValue(50);
+
+    render(
+      <ToastProvider config={{ layout: "stack", gap: 8 }}>
+        <TestToastComponent />
+        <ToastContainer position="top-right" />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+    fireEvent.click(screen.getByText("Show Error"));
+    fireEvent.click(screen.getByText("Show Custom"));
+
+    return screen.getByLabelText("Notificaciones top-right").firstElementChild as HTMLElement;
+  }
+
+  it("should overlap toasts with depth scaling while collapsed", () => {
+    const stack = renderStack();
+    const items = Array.from(stack.children) as HTMLElement[];
+
+    expect(stack).toHaveAttribute("data-expanded", "false");
+    expect(stack.style.height).toBe("70px");
+    expect(items.map((item) => item.style.transform)).toEqual([
+      "translateY(0px) scale(1)",
+      "translateY(10px) scale(0.95)",
+      "translateY(20px) scale(0.9)",
+    ]);
+  });
+
+  it("should expand into a list on hover using measured heights", () => {
+    const stack = renderStack();
+
+    fireEvent.mouseEnter(stack);
+
+    const items = Array.from(stack.children) as HTMLElement[];
+    expect(stack).toHaveAttribute("data-expanded", "true");
+    expect(stack.style.height).toBe("166px");
+    expect(items.map((item) => item.style.transform)).toEqual([
+      "translateY(0px) scale(1)",
+      "translateY(58px) scale(1)",
+      "translateY(116px) scale(1)",
+    ]);
+
+    fireEvent.mouseLeave(stack);
+    expect(stack).toHaveAttribute("data-expanded", "false");
+  });
+
+  it("should expand while focus is inside the stack", () => {
+    const stack = renderStack();
+
+    const closeButtons = screen.getAllByLabelText("Cerrar notificación");
+    act(() => {
+      closeButtons[0].focus();
+    });
+
+    expect(stack).toHaveAttribute("data-expanded", "true");
+
+    act(() => {
+      closeButtons[0].blur();
+    });
+
+    expect(stack).toHaveAttribute("data-expanded", "false");
+  });
+});
+
+describe("Keyboard and focus management", () => {
+  function renderWithTrigger(config = {}) {
+    render(
+      <ToastProvider config={{ defaultDuration: 1000, ...config }}>
+        <TestToastComponent />
+        <input aria-label="Outside" />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+    fireEvent.click(screen.getByText("Show Error"));
+
+    const outside = screen.getByLabelText("Outside");
+    act(() => {
+      outside.focus();
+    });
+
+    return outside;
+  }
+
+  it("should move focus to the most recent toast with the hotkey", () => {
+    renderWithTrigger();
+
+    fireEvent.keyDown(document, { key: "t", code: "KeyT", altKey: true });
+
+    expect(document.activeElement).toHaveTextContent("Error toast");
+  });
+
+  it("should support a custom hotkey and disabling it", () => {
+    renderWithTrigger({ hotkey: "Ctrl+Shift+N" });
+
+    fireEvent.keyDown(document, { key: "t", code: "KeyT", altKey: true });
+    expect(document.activeElement).toBe(screen.getByLabelText("Outside"));
+
+    fireEvent.keyDown(document, { key: "N", code: "KeyN", ctrlKey: true, shiftKey: true });
+    expect(document.activeElement).toHaveTextContent("Error toast");
+  });
+
+  it("should navigate between toasts with the arrow keys", () => {
+    renderWithTrigger();
+
+    fireEvent.keyDown(document, { key: "t", code: "KeyT", altKey: true });
+    fireEvent.keyDown(document.activeElement!, { key: "ArrowDown" });
+    expect(document.activeElement).toHaveTextContent("Success toast");
+
+    fireEvent.keyDown(document.activeElement!, { key: "ArrowUp" });
+    expect(document.activeElement).toHaveTextContent("Error toast");
+  });
+
+  it("should dismiss the focused toast with Escape and restore focus when none are left", () => {
+    const outside = renderWithTrigger();
+
+    fireEvent.keyDown(document, { key: "t", code: "KeyT", altKey: true });
+    fireEvent.keyDown(document.activeElement!, { key: "Escape" });
+
+    expect(document.activeElement).toHaveTextContent("Success toast");
+
+    fireEvent.keyDown(document.activeElement!, { key: "Escape" });
+    expect(document.activeElement).toBe(outside);
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(screen.queryByText("Success toast")).not.toBeInTheDocument();
+    expect(screen.queryByText("Error toast")).not.toBeInTheDocument();
+  });
+
+  it("should pause timers while focus is inside the region", () => {
+    const outside = renderWithTrigger();
+
+    fireEvent.keyDown(document, { key: "t", code: "KeyT", altKey: true });
+
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+
+    expect(screen.getByText("Error toast")).toBeInTheDocument();
+
+    act(() => {
+      outside.focus();
+    });
+
+    act(() => {
+      vi.advanceTimersByTime(1300);
+    });
+
+    expect(screen.queryByText("Error toast")).not.toBeInTheDocument();
+  });
+});
+
+describe("ARIA live semantics", () => {
+  it("should announce each toast exactly once, through the provider live regions", () => {
+    const { container } = render(
+      <ToastProvider>
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+    fireEvent.click(screen.getByText("Show Error"));
+
+    // The toast elements are not live regions, so only the provider regions announce them
+    [getToastElement("success"), getToastElement("error")].forEach((element) => {
+      expect(element).not.toHaveAttribute("role");
+      expect(element).toHaveAttribute("aria-live", "off");
+    });
+
+    const liveRegions = Array.from(container.ownerDocument.querySelectorAll("[aria-live]:not([aria-live='off'])"));
+    expect(liveRegions.filter((region) => region.textContent?.includes("Success toast"))).toHaveLength(1);
+    expect(liveRegions.filter((region) => region.textContent?.includes("Error toast"))).toHaveLength(1);
+    expect(container.ownerDocument.querySelectorAll("[role='alert'], [role='status']")).toHaveLength(0);
+  });
+
+  it("should let toasts with JSX content announce themselves with the role of their type", () => {
+    const store = createToastStore();
+    const { container } = render(
+      <ToastProvider store={store}>
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    act(() => {
+      store.add(<b>Saved</b>, { type: "success" });
+      store.add(<b>Failed</b>, { type: "error", title: "Upload" });
+    });
+
+    // The provider cannot announce JSX, so each toast is its own live region instead
+    expect(getToastElement("success")).toHaveAttribute("role", "status");
+    expect(getToastElement("success")).toHaveAttribute("aria-live", "polite");
+    expect(getToastElement("error")).toHaveAttribute("role", "alert");
+    expect(getToastElement("error")).toHaveAttribute("aria-live", "assertive");
+    expect(container.querySelector("[data-toast-announcer='polite']")).toHaveTextContent("");
+    expect(container.querySelector("[data-toast-announcer='assertive']")).toHaveTextContent("");
+
+    const liveRegions = Array.from(container.ownerDocument.querySelectorAll("[aria-live]:not([aria-live='off'])"));
+    expect(liveRegions.filter((region) => region.textContent?.includes("Saved"))).toHaveLength(1);
+    expect(liveRegions.filter((region) => region.textContent?.includes("Failed"))).toHaveLength(1);
+  });
+
+  it("should announce toasts through the provider live regions without a mounted container", () => {
+    const { container } = render(
+      <ToastProvider>
+        <TestToastComponent />
+      </ToastProvider>,
+    );
+
+    const polite = container.querySelector("[data-toast-announcer='polite']")!;
+    const assertive = container.querySelector("[data-toast-announcer='assertive']")!;
+    expect(polite).toHaveAttribute("aria-live", "polite");
+    expect(assertive).toHaveAttribute("aria-live", "assertive");
+
+    fireEvent.click(screen.getByText("Show Success"));
+    expect(polite).toHaveTextContent("Éxito: Success toast");
+
+    fireEvent.click(screen.getByText("Show Error"));
+    expect(assertive).toHaveTextContent("Error: Error toast");
+  });
+
+  it("should re-announce identical messages", () => {
+    const { container } = render(
+      <ToastProvider>
+        <TestToastComponent />
+      </ToastProvider>,
+    );
+
+    const polite = container.querySelector("[data-toast-announcer='polite']")!;
+
+    fireEvent.click(screen.getByText("Show Success"));
+    const first = polite.firstElementChild;
+
+    fireEvent.click(screen.getByText("Show Success"));
+    expect(polite.firstElementChild).not.toBe(first);
+    expect(polite).toHaveTextContent("Éxito: Success toast");
+  });
+
+  it("should honour ariaLive and announce overrides", () => {
+    function OverrideComponent() {
+      const toast = useToast();
+      return (
+        <div>
+          <button onClick={() => toast.info("Urgent info", { ariaLive: "assertive" })}>Assertive</button>
+          <button onClick={() => toast.success("Quiet", { announce: false })}>Silent</button>
+          <button onClick={() => toast.success(<strong>Saved</strong>, { announce: "Document saved" })}>JSX</button>
+        </div>
+      );
+    }
+
+    const { container } = render(
+      <ToastProvider>
+        <OverrideComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    const polite = container.querySelector("[data-toast-announcer='polite']")!;
+    const assertive = container.querySelector("[data-toast-announcer='assertive']")!;
+
+    fireEvent.click(screen.getByText("Assertive"));
+    expect(assertive).toHaveTextContent("Información: Urgent info");
+
+    // With announce: false nothing announces the toast, not even its own element
+    fireEvent.click(screen.getByText("Silent"));
+    expect(polite).toBeEmptyDOMElement();
+    expect(getToastElement("success")).toHaveAttribute("aria-live", "off");
+
+    fireEvent.click(screen.getByText("JSX"));
+    expect(polite).toHaveTextContent("Éxito: Document saved");
+  });
+});
+
+describe("Theming", () => {
+  let matchMedia: MockInstance | undefined;
+
+  const mockColorScheme = (dark: boolean) => {
+    const listeners = new Set<() => void>();
+    const query = {
+      matches: dark,
+      addEventListener: (_: string, listener: () => void) => listeners.add(listener),
+      removeEventListener: (_: string, listener: () => void) => listeners.delete(listener),
+    };
+    matchMedia = vi.spyOn(window, "matchMedia").mockImplementation(() => query as unknown as MediaQueryList);
+
+    return (next: boolean) => {
+      query.matches = next;
+      listeners.forEach((listener) => listener());
+    };
+  };
+
+  afterEach(() => {
+    matchMedia?.mockRestore();
+  });
+
+  it("should emit theme CSS variables on the container and use them in toasts", () => {
+    render(
+      <ToastProvider>
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+
+    const region = screen.getByRole("region");
+    expect(region).toHaveAttribute("data-theme", "light");
+    expect(region.style.getPropertyValue("--toast-success-filled-background")).toBe("#10b981");
+    expect(region.style.getPropertyValue("--toast-info-outlined-background")).toBe("#ffffff");
+    expect(getToastElement().style.background).toContain("--toast-success-filled-background");
+  });
+
+  it("should use the dark palette in dark mode", () => {
+    render(
+      <ToastProvider config={{ theme: "dark" }}>
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+
+    const region = screen.getByRole("region");
+    expect(region).toHaveAttribute("data-theme", "dark");
+    expect(region.style.getPropertyValue("--toast-success-outlined-background")).toBe("#111827");
+  });
+
+  it("should follow prefers-color-scheme in system mode", () => {
+    const setDark = mockColorScheme(true);
+
+    render(
+      <ToastProvider config={{ theme: "system" }}>
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+    expect(screen.getByRole("region")).toHaveAttribute("data-theme", "dark");
+
+    act(() => setDark(false));
+    expect(screen.getByRole("region")).toHaveAttribute("data-theme", "light");
+  });
+
+  it("should merge custom theme tokens per mode", () => {
+    render(
+      <ToastProvider
+        config={{
+          theme: "dark",
+          themes: {
+            light: { filled: { success: { background: "hotpink" } } },
+            dark: { filled: { success: { background: "rebeccapurple" } } },
+          },
+        }}
+      >
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+
+    const region = screen.getByRole("region");
+    expect(region.style.getPropertyValue("--toast-success-filled-background")).toBe("rebeccapurple");
+    expect(region.style.getPropertyValue("--toast-success-filled-color")).toBe("#ffffff");
+  });
+});
+
+describe("Unstyled mode", () => {
+  it("should expose stable data attributes on every toast", () => {
+    vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) =>
+      setTimeout(() => callback(Date.now()), 16),
+    );
+    vi.stubGlobal("cancelAnimationFrame", (frame: number) => clearTimeout(frame));
+
+    render(
+      <ToastProvider>
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Error"));
+
+    const toast = getToastElement("error");
+    expect(toast).toHaveAttribute("data-type", "error");
+    expect(toast).toHaveAttribute("data-variant", "filled");
+    expect(toast).toHaveAttribute("data-position", "top-right");
+    expect(toast).toHaveAttribute("data-state", "entering");
+
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    expect(toast).toHaveAttribute("data-state", "visible");
+
+    fireEvent.click(screen.getByLabelText("Cerrar notificación"));
+    expect(toast).toHaveAttribute("data-state", "removing");
+
+    vi.unstubAllGlobals();
+  });
+
+  it("should drop inline styles and apply classNames when unstyled", () => {
+    render(
+      <ToastProvider
+        config={{
+          unstyled: true,
+          classNames: { toast: "toast", message: "toast-message", action: "toast-action", close: "toast-close" },
+        }}
+      >
+        <TestToastComponent />
+        <Toaster className="toaster" />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Custom"));
+
+    const toast = getToastElement();
+    expect(toast).toHaveClass("toast");
+    expect(toast.style.background).toBe("");
+    expect(toast.style.padding).toBe("");
+    expect(screen.getByText("Custom toast")).toHaveClass("toast-message");
+    expect(screen.getByText("Custom toast").getAttribute("style")).toBeNull();
+    expect(screen.getByText("Action")).toHaveClass("toast-action");
+    expect(screen.getByText("Action").getAttribute("style")).toBeNull();
+    expect(screen.getByLabelText("Cerrar notificación")).toHaveClass("toast-close");
+
+    const region = screen.getByRole("region");
+    expect(region).toHaveClass("toaster");
+    expect(region).toHaveAttribute("data-position", "top-right");
+    expect(region.style.position).toBe("");
+  });
+
+  it("should combine global and per-toast classNames", () => {
+    function PerToastComponent() {
+      const toast = useToast();
+      return (
+        <button onClick={() => toast.success("Styled", { unstyled: true, classNames: { toast: "bg-green-600" } })}>
+          Show
+        </button>
+      );
+    }
+
+    render(
+      <ToastProvider config={{ classNames: { toast: "rounded" } }}>
+        <PerToastComponent />
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show"));
+    fireEvent.click(screen.getByText("Show Error"));
+
+    const styled = getToastElement("success");
+    expect(styled).toHaveClass("rounded", "bg-green-600");
+    expect(styled.style.padding).toBe("");
+    expect(getToastElement("error")).toHaveClass("rounded");
+    expect(getToastElement("error").style.padding).toBe("12px 16px");
+  });
+});
+
+describe("Animations", () => {
+  beforeEach(() => {
+    vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) =>
+      setTimeout(() => callback(Date.now()), 16),
+    );
+    vi.stubGlobal("cancelAnimationFrame", (frame: number) => clearTimeout(frame));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function PositionedToasts() {
+    const toast = useToast();
+    return (
+      <div>
+        <button onClick={() => toast.info("Left toast", { position: "top-left" })}>Left</button>
+        <button onClick={() => toast.info("Bottom toast", { position: "bottom-center" })}>Bottom</button>
+      </div>
+    );
+  }
+
+  it("should slide in from the nearest edge of the position", () => {
+    render(
+      <ToastProvider>
+        <PositionedToasts />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Left"));
+    fireEvent.click(screen.getByText("Bottom"));
+
+    const left = screen.getByText("Left toast").closest<HTMLElement>("[data-toast-id]")!;
+    const bottom = screen.getByText("Bottom toast").closest<HTMLElement>("[data-toast-id]")!;
+    expect(left.style.transform).toBe("translateX(-100%)");
+    expect(bottom.style.transform).toBe("translateY(100%)");
+
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+
+    expect(left.style.transform).toBe("none");
+    expect(left.style.opacity).toBe("1");
+  });
+
+  it("should remove a toast as soon as its exit transition ends", () => {
+    render(
+      <ToastProvider>
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+    fireEvent.click(screen.getByLabelText("Cerrar notificación"));
+
+    const toast = getToastElement();
+    expect(toast.style.opacity).toBe("0");
+
+    fireEvent.transitionEnd(toast.firstElementChild!);
+    expect(screen.getByText("Success toast")).toBeInTheDocument();
+
+    fireEvent.transitionEnd(toast);
+    expect(screen.queryByText("Success toast")).not.toBeInTheDocument();
+  });
+
+  it("should fall back to the animation duration when no transition event fires", () => {
+    render(
+      <ToastProvider
+        config={{
+          animation: { enter: () => ({ opacity: 0 }), exit: () => ({ opacity: 0 }), duration: 500 },
+        }}
+      >
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+    expect(getToastElement().style.transition).toBe("all 500ms ease");
+
+    fireEvent.click(screen.getByLabelText("Cerrar notificación"));
+
+    act(() => {
+      vi.advanceTimersByTime(400);
+    });
+    expect(screen.getByText("Success toast")).toBeInTheDocument();
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(screen.queryByText("Success toast")).not.toBeInTheDocument();
+  });
+
+  it("should replace movement with a short fade under reduced motion", () => {
+    render(
+      <ToastProvider config={{ reducedMotion: "always" }}>
+        <PositionedToasts />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Left"));
+
+    const toast = screen.getByText("Left toast").closest<HTMLElement>("[data-toast-id]")!;
+    expect(toast.style.transform).toBe("none");
+    expect(toast.style.opacity).toBe("0");
+    expect(toast.style.transition).toBe("all 150ms ease");
+  });
+
+  it("should follow prefers-reduced-motion by default", () => {
+    const matchMedia = vi
+      .spyOn(window, "matchMedia")
+      .mockImplementation(
+        (query) => ({ matches: query === "(prefers-reduced-motion: reduce)", addEventListener: () => {} }) as any,
+      );
+
+    render(
+      <ToastProvider>
+        <PositionedToasts />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Left"));
+
+    const toast = screen.getByText("Left toast").closest<HTMLElement>("[data-toast-id]")!;
+    expect(toast.style.transform).toBe("none");
+    expect(toast.style.transition).toBe("all 150ms ease");
+
+    matchMedia.mockRestore();
+  });
+});
+
+describe("Title, description and actions", () => {
+  function StructuredToast({ onUndo, onView }: { onUndo: () => void; onView: () => void }) {
+    const toast = useToast();
+
+    return (
+      <button
+        onClick={() =>
+          toast.success("3 archivos movidos a la papelera", {
+            title: "Archivos borrados",
+            description: "Se eliminarán definitivamente en 30 días",
+            actions: [
+              { label: "Deshacer", onClick: onUndo, variant: "primary", ariaLabel: "Deshacer el borrado" },
+              { label: "Ver", onClick: onView, dismissOnClick: false },
+              { label: "Cancelar", variant: "cancel" },
+            ],
+          })
+        }
+      >
+        Delete
+      </button>
+    );
+  }
+
+  it("should render the title and description and label the toast with them", () => {
+    const { container } = render(
+      <ToastProvider>
+        <StructuredToast onUndo={vi.fn()} onView={vi.fn()} />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Delete"));
+
+    const toast = getToastElement();
+    expect(toast).toHaveAccessibleName("Archivos borrados");
+    expect(toast).toHaveAccessibleDescription(
+      "3 archivos movidos a la papelera Se eliminarán definitivamente en 30 días",
+    );
+    expect(screen.getByText("Archivos borrados")).toHaveStyle({ fontWeight: "600" });
+
+    const polite = container.querySelector("[data-toast-announcer='polite']")!;
+    expect(polite).toHaveTextContent(
+      "Éxito: Archivos borrados. 3 archivos movidos a la papelera. Se eliminarán definitivamente en 30 días",
+    );
+  });
+
+  it("should render actions in a labelled group with their variants", () => {
+    render(
+      <ToastProvider>
+        <StructuredToast onUndo={vi.fn()} onView={vi.fn()} />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Delete"));
+
+    const group = screen.getByRole("group", { name: "Acciones de la notificación" });
+    const buttons = Array.from(group.querySelectorAll("button"));
+
+    expect(buttons.map((button) => button.dataset.actionVariant)).toEqual(["primary", "secondary", "cancel"]);
+    expect(screen.getByRole("button", { name: "Deshacer el borrado" })).toBe(buttons[0]);
+  });
+
+  it("should dismiss on click unless dismissOnClick is false", () => {
+    const onUndo = vi.fn();
+    const onView = vi.fn();
+
+    render(
+      <ToastProvider>
+        <StructuredToast onUndo={onUndo} onView={onView} />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Delete"));
+    fireEvent.click(screen.getByText("Ver"));
+
+    expect(onView).toHaveBeenCalledTimes(1);
+    expect(getToastElement()).not.toHaveAttribute("data-state", "removing");
+
+    fireEvent.click(screen.getByText("Deshacer"));
+
+    expect(onUndo).toHaveBeenCalledTimes(1);
+    expect(getToastElement()).toHaveAttribute("data-state", "removing");
+  });
+
+  it("should close the toast with a cancel action without onClick", () => {
+    render(
+      <ToastProvider>
+        <StructuredToast onUndo={vi.fn()} onView={vi.fn()} />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Delete"));
+    fireEvent.click(screen.getByText("Cancelar"));
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(screen.queryByText("Archivos borrados")).not.toBeInTheDocument();
+  });
+});
+
+describe("Close reasons and lifecycle events", () => {
+  function Trigger({ options }: { options: Parameters<ReturnType<typeof useToast>["info"]>[1] }) {
+    const toast = useToast();
+    return <button onClick={() => toast.info("Saved", options)}>Show</button>;
+  }
+
+  it("should report 'user' when closed with the close button or Escape", () => {
+    const onClose = vi.fn();
+
+    render(
+      <ToastProvider>
+        <Trigger options={{ onClose, duration: 0 }} />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show"));
+    fireEvent.click(screen.getByLabelText("Cerrar notificación"));
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    fireEvent.click(screen.getByText("Show"));
+    fireEvent.keyDown(getToastElement(), { key: "Escape" });
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(onClose.mock.calls).toEqual([["user"], ["user"]]);
+  });
+
+  it("should report 'action' when closed by an action button", () => {
+    const onClose = vi.fn();
+
+    render(
+      <ToastProvider>
+        <Trigger options={{ onClose, actions: [{ label: "Ver" }] }} />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show"));
+    fireEvent.click(screen.getByText("Ver"));
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(onClose).toHaveBeenCalledWith("action");
+  });
+
+  it("should call onOpen, onAutoClose and onClose with 'timeout' in order", () => {
+    const calls: string[] = [];
+
+    render(
+      <ToastProvider>
+        <Trigger
+          options={{
+            duration: 1000,
+            onOpen: (toast) => calls.push(`open:${toast.message}`),
+            onAutoClose: () => calls.push("auto-close"),
+            onClose: (reason) => calls.push(`close:${reason}`),
+          }}
+        />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show"));
+    expect(calls).toEqual(["open:Saved"]);
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(calls).toEqual(["open:Saved", "auto-close"]);
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+    expect(calls).toEqual(["open:Saved", "auto-close", "close:timeout"]);
+  });
+
+  it("should forward lifecycle events to the provider onEvent", () => {
+    const onEvent = vi.fn();
+
+    render(
+      <ToastProvider onEvent={onEvent}>
+        <Trigger options={{ id: "saved", duration: 0 }} />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show"));
+    fireEvent.click(screen.getByLabelText("Cerrar notificación"));
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(onEvent.mock.calls.map(([event]) => [event.type, event.toast.id, event.reason])).toEqual([
+      ["open", "saved", undefined],
+      ["close", "saved", "user"],
+    ]);
+  });
+});
+
+describe("Headless rendering", () => {
+  it("should render toasts with renderToast while keeping a11y attributes", () => {
+    render(
+      <ToastProvider>
+        <TestToastComponent />
+        <Toaster
+          renderToast={(toast, { dismiss }) => (
+            <div className="my-toast" data-type={toast.type}>
+              <span>{toast.message}</span>
+              <button onClick={dismiss}>Close me</button>
+            </div>
+          )}
+        />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Error"));
+
+    const content = screen.getByText("Error toast");
+    expect(content.parentElement).toHaveClass("my-toast");
+    expect(content.parentElement).toHaveAttribute("data-type", "error");
+    expect(getToastElement("error")).toContainElement(content);
+    expect(screen.queryByLabelText("Cerrar notificación")).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Close me"));
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(screen.queryByText("Error toast")).not.toBeInTheDocument();
+  });
+
+  it("should pause timers of custom-rendered toasts on hover", () => {
+    render(
+      <ToastProvider config={{ defaultDuration: 1000 }}>
+        <TestToastComponent />
+        <ToastContainer position="top-right" renderToast={(toast) => <p>{toast.message}</p>} />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+    fireEvent.mouseEnter(getToastElement());
+
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+
+    expect(screen.getByText("Success toast")).toBeInTheDocument();
+  });
+});
+
+describe("Swipe to dismiss", () => {
+  function swipe(element: HTMLElement, from: { x: number; y: number }, to: { x: number; y: number }, ms = 500) {
+    fireEvent.pointerDown(element, { pointerId: 1, clientX: from.x, clientY: from.y });
+    act(() => {
+      vi.advanceTimersByTime(ms);
+    });
+    fireEvent.pointerMove(element, { pointerId: 1, clientX: to.x, clientY: to.y });
+    fireEvent.pointerUp(element, { pointerId: 1, clientX: to.x, clientY: to.y });
+  }
+
+  it("should dismiss a toast swiped towards its edge past the threshold", () => {
+    render(
+      <ToastProvider>
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+    swipe(getToastElement(), { x: 0, y: 0 }, { x: 80, y: 0 });
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(screen.queryByText("Success toast")).not.toBeInTheDocument();
+  });
+
+  it("should snap back when swiped in the wrong direction or not far enough", () => {
+    render(
+      <ToastProvider>
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+    const toastElement = getToastElement();
+
+    swipe(toastElement, { x: 100, y: 0 }, { x: 0, y: 0 });
+    swipe(toastElement, { x: 0, y: 0 }, { x: 20, y: 0 });
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(screen.getByText("Success toast")).toBeInTheDocument();
+  });
+
+  it("should apply rubber-band feedback while dragging", () => {
+    render(
+      <ToastProvider>
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+    const toastElement = getToastElement();
+
+    fireEvent.pointerDown(toastElement, { pointerId: 1, clientX: 100, clientY: 0 });
+    fireEvent.pointerMove(toastElement, { pointerId: 1, clientX: 0, clientY: 0 });
+
+    expect(toastElement.style.transform).toBe("translateX(-20px)");
+  });
+
+  it("should not capture the pointer for clicks or start a swipe on the toast buttons", () => {
+    render(
+      <ToastProvider>
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Success"));
+    const toastElement = screen.getByText("Success toast").closest<HTMLElement>("[data-toast-id]")!;
+    const setPointerCapture = vi.fn();
+    toastElement.setPointerCapture = setPointerCapture;
+
+    // A click without movement never captures the pointer, so the click reaches its target
+    fireEvent.pointerDown(toastElement, { pointerId: 1, clientX: 0, clientY: 0 });
+    fireEvent.pointerMove(toastElement, { pointerId: 1, clientX: 2, clientY: 0 });
+    fireEvent.pointerUp(toastElement, { pointerId: 1, clientX: 2, clientY: 0 });
+    expect(setPointerCapture).not.toHaveBeenCalled();
+
+    // Dragging from the close button does not swipe the toast
+    swipe(screen.getByLabelText("Cerrar notificación"), { x: 0, y: 0 }, { x: 80, y: 0 });
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+    expect(setPointerCapture).not.toHaveBeenCalled();
+    expect(screen.getByText("Success toast")).toBeInTheDocument();
+
+    swipe(toastElement, { x: 0, y: 0 }, { x: 80, y: 0 });
+    expect(setPointerCapture).toHaveBeenCalledWith(1);
+  });
+
+  it("should use a vertical swipe for centered positions", () => {
+    render(
+      <ToastProvider>
+        <TestToastComponent />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Info Bottom"));
+    const toastElement = getToastElement();
+
+    swipe(toastElement, { x: 0, y: 0 }, { x: 80, y: 0 });
+    expect(screen.getByText("Info toast")).toBeInTheDocument();
+
+    swipe(toastElement, { x: 0, y: 0 }, { x: 0, y: 80 });
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(screen.queryByText("Info toast")).not.toBeInTheDocument();
+  });
+
+  it("should not swipe toasts that are not dismissible", () => {
+    function NonDismissible() {
+      const toast = useToast();
+      return <button onClick={() => toast.info("Sticky toast", { dismissible: false })}>Show Sticky</button>;
+    }
+
+    render(
+      <ToastProvider>
+        <NonDismissible />
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    fireEvent.click(screen.getByText("Show Sticky"));
+    swipe(getToastElement(), { x: 0, y: 0 }, { x: 200, y: 0 });
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(screen.getByText("Sticky toast")).toBeInTheDocument();
+  });
+});
+
 describe("Toast variants and styling", () => {
   it("should apply different variants correctly", () => {
     function VariantTestComponent() {
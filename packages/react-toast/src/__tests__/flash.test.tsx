@@ -0,0 +1,118 @@
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { ToastProvider } from "../context";
+import { Toaster } from "../components";
+import { createToastStore } from "../store";
+import { flashToast, withFlashToast } from "../flash";
+import * as serverEntry from "../server";
+import { ToastConfig } from "../types";
+
+function App({ flash = true }: { flash?: ToastConfig["flash"] }) {
+  return (
+    <ToastProvider store={createToastStore()} config={{ flash }}>
+      <Toaster />
+    </ToastProvider>
+  );
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  window.sessionStorage.clear();
+  window.history.replaceState(null, "", "/");
+  vi.clearAllTimers();
+  vi.useRealTimers();
+});
+
+describe("flashToast", () => {
+  it("should replay a stored toast once on the next provider mount", () => {
+    flashToast("Saved!", { type: "success", data: { from: "settings" } });
+
+    const { unmount } = render(<App />);
+
+    expect(screen.getByText("Saved!")).toBeInTheDocument();
+    expect(window.sessionStorage.getItem("complete-react-toast:flash")).toBeNull();
+
+    unmount();
+    render(<App />);
+
+    expect(screen.queryByText("Saved!")).not.toBeInTheDocument();
+  });
+
+  it("should leave pending toasts alone unless flash is enabled", () => {
+    flashToast("Saved!");
+
+    render(<App flash={false} />);
+
+    expect(screen.queryByText("Saved!")).not.toBeInTheDocument();
+    expect(window.sessionStorage.getItem("complete-react-toast:flash")).not.toBeNull();
+  });
+
+  it("should drop toasts older than their ttl", () => {
+    flashToast("Too late", { ttl: 1000 });
+    flashToast("Still fresh", { ttl: 5000 });
+
+    vi.advanceTimersByTime(2000);
+    render(<App />);
+
+    expect(screen.queryByText("Too late")).not.toBeInTheDocument();
+    expect(screen.getByText("Still fresh")).toBeInTheDocument();
+  });
+});
+
+describe("withFlashToast", () => {
+  it("should be available from the server entry, which is not a client module", () => {
+    const source = readFileSync(resolve(__dirname, "../server.ts"), "utf8");
+
+    expect(serverEntry.withFlashToast).toBe(withFlashToast);
+    expect(source).not.toMatch(/^\s*["']use client["']/m);
+  });
+
+  it("should add the toast to the query string keeping the rest of the URL", () => {
+    const url = withFlashToast("/orders?page=2#list", "Order created", { type: "success" });
+    const parsed = new URL(url, "http://localhost");
+
+    expect(parsed.pathname).toBe("/orders");
+    expect(parsed.searchParams.get("page")).toBe("2");
+    expect(parsed.hash).toBe("#list");
+    expect(JSON.parse(parsed.searchParams.get("toast")!)).toEqual([
+      expect.objectContaining({ message: "Order created", type: "success" }),
+    ]);
+  });
+
+  it("should replay the toast from the URL and remove the parameter", () => {
+    window.history.replaceState(null, "", withFlashToast("/orders?page=2", "Order created"));
+
+    render(<App flash={{ param: true }} />);
+
+    expect(screen.getByText("Order created")).toBeInTheDocument();
+    expect(window.location.pathname + window.location.search).toBe("/orders?page=2");
+  });
+
+  it("should read a custom parameter name", () => {
+    window.history.replaceState(null, "", withFlashToast("/", "Custom param", { param: "notice" }));
+
+    render(<App flash={{ param: "notice" }} />);
+
+    expect(screen.getByText("Custom param")).toBeInTheDocument();
+    expect(window.location.search).toBe("");
+  });
+
+  it("should ignore invalid URL parameters, and the URL unless param is enabled", () => {
+    window.history.replaceState(null, "", "/?toast=not-json");
+    render(<App flash={{ param: true }} />);
+
+    expect(screen.queryByLabelText(/Notificaciones/)).not.toBeInTheDocument();
+
+    window.history.replaceState(null, "", withFlashToast("/", "From the URL"));
+    render(<App />);
+
+    expect(screen.queryByText("From the URL")).not.toBeInTheDocument();
+    expect(window.location.search).not.toBe("");
+  });
+});
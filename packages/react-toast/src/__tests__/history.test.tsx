@@ -0,0 +1,186 @@
+import React from "react";
+import { render, screen, fireEvent, act, renderHook } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ToastProvider } from "../context";
+import { ToastInbox } from "../components";
+import { createToastStore } from "../store";
+import { useToastHistory } from "../useToast";
+import { ToastStore } from "../types";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  window.localStorage.clear();
+  vi.clearAllTimers();
+  vi.useRealTimers();
+});
+
+describe("history buffer", () => {
+  it("should not record anything unless enabled", () => {
+    const store = createToastStore();
+    store.add("Hello");
+    store.dismiss();
+
+    expect(store.getSnapshot().history).toEqual([]);
+  });
+
+  it("should record closed toasts with their reason and read state", () => {
+    const store = createToastStore({ history: true });
+    const saved = store.add("Saved", { type: "success", data: { area: "files" } });
+    store.add("Failed", { type: "error", duration: 1000 });
+    store.add("Uploading", { type: "loading", duration: 0 });
+
+    store.dismiss(saved, "user");
+    vi.advanceTimersByTime(1300);
+
+    // Loading toasts are transient states and are not recorded
+    expect(store.getSnapshot().history.map(({ message, reason, read }) => ({ message, reason, read }))).toEqual([
+      { message: "Failed", reason: "timeout", read: false },
+      { message: "Saved", reason: "user", read: true },
+    ]);
+    expect(store.getSnapshot().history[1].data).toEqual({ area: "files" });
+  });
+
+  it("should keep only the most recent entries", () => {
+    const store = createToastStore({ history: { limit: 2 } });
+    ["One", "Two", "Three"].forEach((message) => store.add(message));
+
+    store.dismiss();
+
+    expect(store.getSnapshot().history).toHaveLength(2);
+  });
+
+  it("should persist text entries and restore them in a new provider", () => {
+    const history = { storageKey: "test-toasts" };
+    const store = createToastStore({ history });
+    store.add("Persisted");
+    store.add(<strong>JSX only</strong>);
+    store.dismiss();
+
+    expect(JSON.parse(window.localStorage.getItem("test-toasts")!)).toHaveLength(1);
+
+    const restored = createToastStore();
+    render(
+      <ToastProvider store={restored} config={{ history }}>
+        <ToastInbox />
+      </ToastProvider>,
+    );
+
+    expect(screen.getByText("Persisted")).toBeInTheDocument();
+  });
+
+  it("should keep the persisted entries when a toast closes before they are restored", () => {
+    const history = { storageKey: "test-toasts" };
+    const previous = createToastStore({ history });
+    previous.add("Old");
+    previous.dismiss();
+
+    // The second initial toast does not fit and closes while the provider is seeding
+    render(
+      <ToastProvider
+        store={createToastStore()}
+        config={{ history, maxToasts: 1, queueStrategy: "drop-newest" }}
+        initialToasts={[{ message: "Shown" }, { message: "Overflow" }]}
+      >
+        <ToastInbox />
+      </ToastProvider>,
+    );
+
+    const persisted = JSON.parse(window.localStorage.getItem("test-toasts")!);
+    expect(persisted.map((entry: { message: string }) => entry.message)).toEqual(["Overflow", "Old"]);
+    expect(screen.getByText("Old")).toBeInTheDocument();
+  });
+});
+
+describe("useToastHistory", () => {
+  let store: ToastStore;
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <ToastProvider store={store} config={{ history: true }}>
+      {children}
+    </ToastProvider>
+  );
+
+  beforeEach(() => {
+    store = createToastStore();
+  });
+
+  it("should filter entries by data and type", () => {
+    const { result } = renderHook(() => useToastHistory({ data: { area: "billing" }, type: "error" }), { wrapper });
+
+    act(() => {
+      store.add("Card declined", { type: "error", data: { area: "billing" } });
+      store.add("Invoice sent", { type: "success", data: { area: "billing" } });
+      store.add("Upload failed", { type: "error", data: { area: "files" } });
+      store.dismiss();
+    });
+
+    expect(result.current.entries.map((entry) => entry.message)).toEqual(["Card declined"]);
+    expect(result.current.unreadCount).toBe(1);
+  });
+
+  it("should mark read and clear only the filtered entries", () => {
+    const { result } = renderHook(() => useToastHistory({ type: "error" }), { wrapper });
+
+    act(() => {
+      store.add("Warning", { type: "warning" });
+      store.add("Error", { type: "error" });
+      store.dismiss();
+    });
+
+    act(() => result.current.markRead());
+    expect(store.getSnapshot().history.map((entry) => entry.read)).toEqual([false, true]);
+
+    act(() => result.current.clear());
+    expect(store.getSnapshot().history.map((entry) => entry.message)).toEqual(["Warning"]);
+  });
+});
+
+describe("ToastInbox", () => {
+  it("should list missed toasts and let the user mark them as read", () => {
+    const store = createToastStore();
+
+    render(
+      <ToastProvider store={store} config={{ history: true }}>
+        <ToastInbox />
+      </ToastProvider>,
+    );
+
+    expect(screen.getByText("No hay notificaciones")).toBeInTheDocument();
+
+    act(() => {
+      store.add("Report ready", { title: "Exports" });
+      store.dismiss();
+    });
+
+    expect(screen.getByRole("region", { name: "Notificaciones" })).toHaveTextContent("Exports");
+    expect(screen.getByLabelText("1 sin leer")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Marcar todo como leído"));
+
+    expect(screen.queryByLabelText("1 sin leer")).not.toBeInTheDocument();
+    expect(screen.getByText("Report ready").closest("li")).toHaveAttribute("data-read", "true");
+
+    fireEvent.click(screen.getByLabelText("Eliminar notificación"));
+
+    expect(screen.getByText("No hay notificaciones")).toBeInTheDocument();
+  });
+
+  it("should follow the theme of the provider", () => {
+    render(
+      <ToastProvider
+        store={createToastStore()}
+        config={{ history: true, theme: "dark", themes: { dark: { outlined: { info: { color: "#a78bfa" } } } } }}
+      >
+        <ToastInbox />
+      </ToastProvider>,
+    );
+
+    const inbox = screen.getByRole("region", { name: "Notificaciones" });
+    expect(inbox).toHaveAttribute("data-theme", "dark");
+    expect(inbox).toHaveStyle({ background: "#111827", color: "#f9fafb" });
+    expect(screen.getByText("Vaciar")).toHaveStyle({ color: "#a78bfa" });
+  });
+});
@@ -0,0 +1,146 @@
+import React from "react";
+import { renderToString } from "react-dom/server";
+import { hydrateRoot } from "react-dom/client";
+import { render, screen, act } from "@testing-library/react";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ToastProvider } from "../context";
+import { ToastContainer, Toaster } from "../components";
+import { createToastStore } from "../store";
+import { ToastInitialToast, ToastStore } from "../types";
+
+const FLASH: ToastInitialToast[] = [
+  { message: "Perfil guardado", type: "success", title: "Cambios aplicados" },
+  { message: "Revisa tu correo", type: "info", id: "verify-email" },
+];
+
+function App({ store }: { store: ToastStore }) {
+  return (
+    <ToastProvider store={store} initialToasts={FLASH}>
+      <main>Contenido</main>
+      <Toaster />
+    </ToastProvider>
+  );
+}
+
+afterEach(() => {
+  document.getElementById("complete-react-toast-styles")?.remove();
+  document.body.innerHTML = "";
+});
+
+describe("server rendering", () => {
+  it("should render initial toasts on the server without inline style tags", () => {
+    const html = renderToString(<App store={createToastStore()} />);
+
+    expect(html).toContain("Perfil guardado");
+    expect(html).toContain('data-toast-id="verify-email"');
+    expect(html).not.toContain("<style");
+  });
+
+  it("should hydrate the server markup without mismatches", async () => {
+    const html = renderToString(<App store={createToastStore()} />);
+    const container = document.createElement("div");
+    container.innerHTML = html;
+    document.body.appendChild(container);
+
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    const store = createToastStore();
+
+    let root!: ReturnType<typeof hydrateRoot>;
+    await act(async () => {
+      root = hydrateRoot(container, <App store={store} />);
+    });
+
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+
+    // Same deterministic IDs on the server and in the client store
+    const serverIds = Array.from(new DOMParser().parseFromString(html, "text/html").querySelectorAll("[data-toast-id]"))
+      .map((element) => element.getAttribute("data-toast-id"))
+      .sort();
+    expect(
+      store
+        .getSnapshot()
+        .toasts.map((toast) => toast.id)
+        .sort(),
+    ).toEqual(serverIds);
+
+    act(() => root.unmount());
+  });
+});
+
+describe("client rendering", () => {
+  it("should inject the shared keyframes once for every container", () => {
+    const store = createToastStore();
+
+    render(
+      <ToastProvider store={store}>
+        <ToastContainer position="top-right" />
+        <ToastContainer position="bottom-left" />
+      </ToastProvider>,
+    );
+
+    act(() => {
+      store.add("Right", { type: "loading" });
+      store.add("Left", { type: "loading", position: "bottom-left" });
+    });
+
+    expect(document.querySelectorAll("#complete-react-toast-styles")).toHaveLength(1);
+    expect(document.querySelectorAll("body style")).toHaveLength(0);
+  });
+
+  it("should show initial toasts once even if the provider remounts", () => {
+    const store = createToastStore();
+    const { unmount } = render(<App store={store} />);
+
+    expect(screen.getByText("Perfil guardado")).toBeInTheDocument();
+
+    act(() => store.dismiss());
+    unmount();
+    render(<App store={store} />);
+
+    expect(screen.queryByText("Perfil guardado")).not.toBeInTheDocument();
+  });
+
+  it("should not repeat initial toasts with an id when a provider with its own store remounts", () => {
+    // A nested provider creates a new store on every mount, and the inline list new objects
+    const Nested = () => (
+      <ToastProvider store={createToastStore()}>
+        <ToastProvider initialToasts={[{ message: "Bienvenido", id: "welcome-back" }]}>
+          <Toaster container={false} />
+        </ToastProvider>
+      </ToastProvider>
+    );
+
+    const { unmount } = render(<Nested />);
+    expect(screen.getByText("Bienvenido")).toBeInTheDocument();
+
+    unmount();
+    render(<Nested />);
+
+    expect(screen.queryByText("Bienvenido")).not.toBeInTheDocument();
+  });
+
+  it("should run the lifecycle callbacks of initial toasts only once", () => {
+    const onOpen = vi.fn();
+    const onClose = vi.fn();
+    const initialToasts: ToastInitialToast[] = [
+      { message: "Primero", onOpen, onClose },
+      { message: "Segundo", onOpen, onClose },
+    ];
+
+    render(
+      <ToastProvider
+        store={createToastStore()}
+        config={{ maxToasts: 1, queueStrategy: "drop-newest" }}
+        initialToasts={initialToasts}
+      >
+        <Toaster container={false} />
+      </ToastProvider>,
+    );
+
+    // The second toast does not fit: computing the initial snapshot must not report that close again
+    expect(onOpen).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledWith("overflow");
+  });
+});
@@ -0,0 +1,487 @@
+import React from "react";
+import { render, screen, act } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { ToastProvider } from "../context";
+import { Toaster } from "../components";
+import { createToastFunction, createToastStore, getToastStore, toast } from "../store";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  getToastStore().reset();
+  vi.clearAllTimers();
+  vi.useRealTimers();
+});
+
+describe("createToastStore", () => {
+  it("should add, update and dismiss toasts without React", () => {
+    const store = createToastStore({ defaultDuration: 1000 });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    const id = store.add("Saving", { type: "loading", duration: 0 });
+    expect(store.getSnapshot().toasts).toHaveLength(1);
+    expect(store.getSnapshot().toasts[0]).toMatchObject({ id, message: "Saving", type: "loading" });
+
+    store.update(id, "Saved", { type: "success" });
+    expect(store.getSnapshot().toasts[0]).toMatchObject({ message: "Saved", type: "success" });
+
+    store.dismiss(id);
+    expect(store.getSnapshot().toasts[0].removing).toBe(true);
+
+    vi.advanceTimersByTime(300);
+    expect(store.getSnapshot().toasts).toHaveLength(0);
+    expect(listener).toHaveBeenCalled();
+  });
+
+  it("should keep the snapshot reference until the state changes", () => {
+    const store = createToastStore();
+    const before = store.getSnapshot();
+
+    expect(store.getSnapshot()).toBe(before);
+
+    store.add("Hello");
+    expect(store.getSnapshot()).not.toBe(before);
+  });
+
+  it("should auto-dismiss with the store configuration", () => {
+    const store = createToastStore({ defaultDuration: 500 });
+    store.add("Short lived");
+
+    vi.advanceTimersByTime(500);
+    expect(store.getSnapshot().toasts[0].removing).toBe(true);
+  });
+
+  it("should stop notifying after unsubscribing", () => {
+    const store = createToastStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    unsubscribe();
+    store.add("Hello");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("should dismiss every toast when called without an ID", () => {
+    const store = createToastStore();
+    const onClose = vi.fn();
+    store.add("One", { onClose });
+    store.add("Two", { onClose });
+
+    store.dismiss();
+
+    expect(store.getSnapshot().toasts).toHaveLength(0);
+    expect(onClose).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("named stores", () => {
+  it("should return the same store for the same name", () => {
+    expect(getToastStore("admin")).toBe(getToastStore("admin"));
+    expect(getToastStore("admin")).not.toBe(getToastStore());
+    getToastStore("admin").reset();
+  });
+
+  it("should bind a toast function to a named store", () => {
+    const adminToast = createToastFunction("admin");
+    adminToast.error("Forbidden");
+
+    expect(adminToast.store).toBe(getToastStore("admin"));
+    expect(getToastStore("admin").getSnapshot().toasts[0]).toMatchObject({ message: "Forbidden", type: "error" });
+    expect(getToastStore().getSnapshot().toasts).toHaveLength(0);
+    getToastStore("admin").reset();
+  });
+});
+
+describe("toast()", () => {
+  it("should render toasts fired outside of React components", () => {
+    render(
+      <ToastProvider>
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    act(() => {
+      toast("Plain message");
+      toast.error("Request failed");
+    });
+
+    expect(screen.getByText("Plain message")).toBeInTheDocument();
+    expect(document.querySelector("[data-type='error']")).toHaveTextContent("Request failed");
+  });
+
+  it("should keep toasts fired before the provider mounts", () => {
+    toast.success("Early bird");
+
+    render(
+      <ToastProvider>
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    expect(screen.getByText("Early bird")).toBeInTheDocument();
+  });
+
+  it("should render a named store only in the provider bound to it", () => {
+    render(
+      <>
+        <ToastProvider>
+          <div data-testid="main">
+            <Toaster container={false} />
+          </div>
+        </ToastProvider>
+        <ToastProvider store="admin">
+          <div data-testid="admin">
+            <Toaster container={false} />
+          </div>
+        </ToastProvider>
+      </>,
+    );
+
+    act(() => {
+      createToastFunction("admin").info("Admin only");
+    });
+
+    expect(screen.getByTestId("admin")).toHaveTextContent("Admin only");
+    expect(screen.getByTestId("main")).not.toHaveTextContent("Admin only");
+  });
+
+  it("should bind only the first root provider to toast() and keep the rest isolated", () => {
+    render(
+      <ToastProvider config={{ maxToasts: 3 }}>
+        <div data-testid="root">
+          <Toaster container={false} />
+        </div>
+        <ToastProvider>
+          <div data-testid="nested">
+            <Toaster container={false} />
+          </div>
+        </ToastProvider>
+      </ToastProvider>,
+    );
+    // A second root provider must not overwrite the config or show the toasts of the first one
+    render(
+      <ToastProvider config={{ maxToasts: 1 }}>
+        <div data-testid="second">
+          <Toaster container={false} />
+        </div>
+      </ToastProvider>,
+    );
+
+    act(() => {
+      toast("Global");
+    });
+
+    expect(screen.getByTestId("root")).toHaveTextContent("Global");
+    expect(screen.getByTestId("nested")).not.toHaveTextContent("Global");
+    expect(screen.getByTestId("second")).not.toHaveTextContent("Global");
+    expect(toast.store.getConfig().maxToasts).toBe(3);
+  });
+
+  it("should not overwrite the config of a shared store while rendering", () => {
+    const store = createToastStore({ defaultDuration: 1000 });
+
+    function Probe() {
+      // Rendering a bound provider must not have reconfigured the store yet
+      expect(store.getConfig().defaultDuration).toBe(1000);
+      return null;
+    }
+
+    render(
+      <ToastProvider store={store} config={{ defaultDuration: 2000 }}>
+        <Probe />
+      </ToastProvider>,
+    );
+
+    expect(store.getConfig().defaultDuration).toBe(2000);
+  });
+
+  it("should clear the store once its last provider unmounts", async () => {
+    const { unmount } = render(
+      <ToastProvider>
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    act(() => {
+      toast("Leftover");
+    });
+
+    unmount();
+    await Promise.resolve();
+
+    expect(getToastStore().getSnapshot().toasts).toHaveLength(0);
+  });
+});
+
+describe("close reasons", () => {
+  it("should report 'programmatic' and 'dismissAll'", () => {
+    const store = createToastStore();
+    const onFirstClose = vi.fn();
+    const onSecondClose = vi.fn();
+    const id = store.add("One", { onClose: onFirstClose });
+    store.add("Two", { onClose: onSecondClose });
+
+    store.dismiss(id);
+    store.dismiss();
+
+    // The first toast was already leaving and keeps its reason
+    expect(onFirstClose).toHaveBeenCalledWith("programmatic");
+    expect(onSecondClose).toHaveBeenCalledWith("dismissAll");
+  });
+
+  it("should report 'overflow' for every queue strategy", () => {
+    const onClose = vi.fn();
+
+    const dropOldest = createToastStore({ maxToasts: 1 });
+    dropOldest.add("Old", { onClose });
+    dropOldest.add("New");
+
+    const dropNewest = createToastStore({ maxToasts: 1, queueStrategy: "drop-newest" });
+    dropNewest.add("Old");
+    dropNewest.add("New", { onClose });
+
+    const queue = createToastStore({ maxToasts: 1, queueStrategy: "queue", maxQueue: 1 });
+    queue.add("Visible");
+    queue.add("Queued", { onClose });
+    queue.add("Queued too");
+
+    expect(onClose.mock.calls).toEqual([["overflow"], ["overflow"], ["overflow"]]);
+  });
+
+  it("should emit open and close events to subscribers", () => {
+    const store = createToastStore({ maxToasts: 1, queueStrategy: "queue" });
+    const listener = vi.fn();
+    const unsubscribe = store.subscribeEvents(listener);
+
+    const first = store.add("First");
+    store.add("Second");
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    store.dismiss(first);
+    vi.advanceTimersByTime(300);
+
+    expect(listener.mock.calls.map(([event]) => [event.type, event.toast.message])).toEqual([
+      ["open", "First"],
+      ["close", "First"],
+      ["open", "Second"],
+    ]);
+
+    unsubscribe();
+    store.dismiss();
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("global cap", () => {
+  it("should drop the oldest toast of any position when maxTotalToasts is reached", () => {
+    const store = createToastStore({ maxTotalToasts: 2 });
+    store.add("Left", { position: "top-left" });
+    store.add("Right", { position: "top-right" });
+    store.add("Center", { position: "bottom-center" });
+
+    vi.advanceTimersByTime(300);
+
+    expect(store.getSnapshot().toasts.map((t) => t.message)).toEqual(["Center", "Right"]);
+  });
+
+  it("should queue across positions and promote in arrival order", () => {
+    const store = createToastStore({ maxTotalToasts: 1, queueStrategy: "queue" });
+    const first = store.add("First", { position: "top-left" });
+    store.add("Second", { position: "top-right" });
+    store.add("Third", { position: "top-left" });
+
+    expect(store.getSnapshot().queued.map((t) => t.message)).toEqual(["Second", "Third"]);
+
+    store.dismiss(first);
+    vi.advanceTimersByTime(300);
+
+    expect(store.getSnapshot().toasts.map((t) => t.message)).toEqual(["Second"]);
+    expect(store.getSnapshot().queued.map((t) => t.message)).toEqual(["Third"]);
+  });
+});
+
+describe("priority", () => {
+  const messages = (toasts: { message: React.ReactNode }[]) => toasts.map((t) => t.message);
+
+  it("should keep higher priority toasts above newer ones", () => {
+    const store = createToastStore();
+    store.add("Incident", { priority: "urgent" });
+    store.add("Deploy", { priority: "high" });
+    store.add("Saved");
+
+    expect(messages(store.getSnapshot().toasts)).toEqual(["Incident", "Deploy", "Saved"]);
+  });
+
+  it("should not auto-dismiss urgent toasts unless a duration is set", () => {
+    const store = createToastStore({ defaultDuration: 1000 });
+    store.add("Incident", { priority: "urgent" });
+    store.add("Timed incident", { priority: "urgent", duration: 1000 });
+
+    vi.advanceTimersByTime(1300);
+
+    expect(messages(store.getSnapshot().toasts)).toEqual(["Incident"]);
+  });
+
+  it("should never evict urgent toasts and evict lower priorities first", () => {
+    const store = createToastStore({ maxToasts: 2 });
+    const onClose = vi.fn();
+    store.add("Low", { priority: "low", onClose });
+    store.add("Normal");
+    store.add("Incident", { priority: "urgent" });
+
+    vi.advanceTimersByTime(300);
+    expect(onClose).toHaveBeenCalledWith("overflow");
+    expect(messages(store.getSnapshot().toasts)).toEqual(["Incident", "Normal"]);
+
+    // A lower priority toast cannot push out a higher one
+    store.add("Deploy", { priority: "high" });
+    store.add("Tip", { priority: "low" });
+    vi.advanceTimersByTime(300);
+    expect(messages(store.getSnapshot().toasts)).toEqual(["Incident", "Deploy"]);
+
+    // Urgent toasts are shown even with drop-newest, exceeding the limit only when every toast is urgent
+    const dropNewest = createToastStore({ maxToasts: 1, queueStrategy: "drop-newest" });
+    dropNewest.add("First incident", { priority: "urgent" });
+    dropNewest.add("Second incident", { priority: "urgent" });
+    expect(messages(dropNewest.getSnapshot().toasts)).toEqual(["Second incident", "First incident"]);
+  });
+
+  it("should let urgent toasts jump the queue", () => {
+    const store = createToastStore({ maxToasts: 1, queueStrategy: "queue" });
+    const first = store.add("Visible");
+    store.add("Waiting");
+    store.add("Important", { priority: "high" });
+    store.add("Incident", { priority: "urgent" });
+
+    expect(messages(store.getSnapshot().queued)).toEqual(["Incident", "Important", "Waiting"]);
+
+    store.dismiss(first);
+    vi.advanceTimersByTime(300);
+
+    expect(messages(store.getSnapshot().toasts)).toEqual(["Incident"]);
+  });
+
+  it("should suppress low priority toasts while an urgent one is visible", () => {
+    const store = createToastStore();
+    const onClose = vi.fn();
+    store.add("Tip", { priority: "low", onClose });
+    const incident = store.add("Incident", { priority: "urgent" });
+    store.add("Another tip", { priority: "low", onClose });
+
+    vi.advanceTimersByTime(300);
+    expect(messages(store.getSnapshot().toasts)).toEqual(["Incident"]);
+    expect(onClose.mock.calls).toEqual([["suppressed"], ["suppressed"]]);
+
+    store.dismiss(incident);
+    vi.advanceTimersByTime(300);
+    store.add("Tip after the incident", { priority: "low" });
+    expect(messages(store.getSnapshot().toasts)).toEqual(["Tip after the incident"]);
+  });
+
+  it("should drop queued low priority toasts once an urgent one is shown", () => {
+    const store = createToastStore({ maxToasts: 1, queueStrategy: "queue" });
+    const onClose = vi.fn();
+    const visible = store.add("Visible");
+    store.add("Queued tip", { priority: "low", onClose });
+    store.add("Incident", { priority: "urgent" });
+
+    store.dismiss(visible);
+    vi.advanceTimersByTime(300);
+
+    expect(messages(store.getSnapshot().toasts)).toEqual(["Incident"]);
+    expect(store.getSnapshot().queued).toEqual([]);
+    expect(onClose).toHaveBeenCalledWith("suppressed");
+  });
+});
+
+describe("rate limiting", () => {
+  const messages = (toasts: { message: React.ReactNode }[]) => toasts.map((t) => t.message);
+
+  it("should summarize the toasts over the limit of each type", () => {
+    const store = createToastStore({ rateLimit: { limit: 2, interval: 1000 } });
+    const onClose = vi.fn();
+
+    for (let i = 1; i <= 14; i++) store.add(`Reconnecting ${i}`, { type: "warning", onClose });
+    store.add("Other type");
+
+    expect(messages(store.getSnapshot().toasts)).toEqual([
+      "Other type",
+      "12 notificaciones más",
+      "Reconnecting 2",
+      "Reconnecting 1",
+    ]);
+    expect(store.getSnapshot().toasts[1].type).toBe("warning");
+    expect(onClose).toHaveBeenCalledTimes(12);
+    expect(onClose).toHaveBeenCalledWith("rateLimited");
+  });
+
+  it("should accept toasts again once the interval has passed", () => {
+    const store = createToastStore({ rateLimit: { limit: 1, interval: 1000, summary: false } });
+    store.add("First");
+    store.add("Dropped");
+
+    vi.advanceTimersByTime(1000);
+    store.add("Accepted");
+
+    expect(messages(store.getSnapshot().toasts)).toEqual(["Accepted", "First"]);
+  });
+
+  it("should limit each groupKey separately and never limit urgent toasts", () => {
+    const store = createToastStore({
+      rateLimit: { limit: 1, summary: (count) => `+${count}` },
+    });
+    store.add("Socket A", { groupKey: "socket-a" });
+    store.add("Socket B", { groupKey: "socket-b" });
+    store.add("Socket B again", { groupKey: "socket-b" });
+    store.add("Incident", { priority: "urgent" });
+    store.add("Incident update", { priority: "urgent" });
+
+    expect(messages(store.getSnapshot().toasts)).toEqual(["Incident update", "Incident", "+1", "Socket B", "Socket A"]);
+  });
+
+  it("should report rate-limited toasts to event subscribers", () => {
+    const store = createToastStore({ rateLimit: { limit: 1, summary: false } });
+    const listener = vi.fn();
+    store.subscribeEvents(listener);
+
+    store.add("First");
+    const id = store.add("Dropped", { data: { attempt: 2 } });
+
+    expect(listener).toHaveBeenLastCalledWith({
+      type: "close",
+      reason: "rateLimited",
+      toast: expect.objectContaining({ id, message: "Dropped", data: { attempt: 2 } }),
+    });
+    expect(store.getSnapshot().history).toHaveLength(0);
+  });
+
+  it("should not limit the loading toasts of toast.promise and toast.progress", async () => {
+    const store = createToastStore({ rateLimit: { limit: 1, summary: false } });
+    const toast = createToastFunction(store);
+
+    store.add("Busy", { type: "loading" });
+    const saving = toast.promise(Promise.resolve("done"), { loading: "Saving", success: "Saved", error: "Failed" });
+    const upload = toast.progress("Uploading");
+    upload.succeed("Uploaded");
+    await act(() => saving);
+
+    expect(messages(store.getSnapshot().toasts)).toEqual(expect.arrayContaining(["Saved", "Uploaded"]));
+  });
+
+  it("should notify subscribers once per batch", () => {
+    const store = createToastStore({ maxToasts: 50 });
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.batch(() => {
+      for (let i = 0; i < 50; i++) store.add(`Message ${i}`);
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getSnapshot().toasts).toHaveLength(50);
+  });
+});
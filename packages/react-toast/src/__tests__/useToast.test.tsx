@@ -1,8 +1,11 @@
 import React, { ReactNode } from "react";
 import { renderHook, act, render, screen, waitFor } from "@testing-library/react";
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { useToast, useToastError, useToastWithDefaults } from "../useToast";
+import { useToast, useToaster, useToastError, useToastTimer, useToastWithDefaults } from "../useToast";
 import { ToastProvider } from "../context";
+import { Toaster } from "../components";
+import { createToastFunction, createToastStore } from "../store";
+import { ToastConfig } from "../types";
 
 // Test wrapper with ToastProvider
 function TestWrapper({ children }: { children: ReactNode }) {
@@ -308,6 +311,769 @@ describe("useToast", () => {
   });
 });
 
+describe("timer pausing", () => {
+  it("should pause timers while the window is blurred", () => {
+    const { result } = renderHook(() => useToast(), { wrapper: TestWrapper });
+
+    act(() => {
+      result.current.info("Blur me");
+      vi.advanceTimersByTime(400);
+    });
+
+    act(() => {
+      window.dispatchEvent(new Event("blur"));
+      vi.advanceTimersByTime(5000);
+    });
+
+    expect(result.current.toasts).toHaveLength(1);
+    expect(result.current.toasts[0].removing).toBe(false);
+
+    act(() => {
+      window.dispatchEvent(new Event("focus"));
+      vi.advanceTimersByTime(599);
+    });
+
+    expect(result.current.toasts[0].removing).toBe(false);
+
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+
+    expect(result.current.toasts[0].removing).toBe(true);
+  });
+
+  it("should start new timers paused while the document is hidden", () => {
+    const { result } = renderHook(() => useToast(), { wrapper: TestWrapper });
+    const visibility = vi.spyOn(document, "visibilityState", "get").mockReturnValue("hidden");
+
+    act(() => {
+      document.dispatchEvent(new Event("visibilitychange"));
+      result.current.info("Hidden tab");
+      vi.advanceTimersByTime(5000);
+    });
+
+    expect(result.current.toasts[0].removing).toBe(false);
+
+    visibility.mockReturnValue("visible");
+    act(() => {
+      document.dispatchEvent(new Event("visibilitychange"));
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(result.current.toasts[0].removing).toBe(true);
+    visibility.mockRestore();
+  });
+
+  it("should not pause on focus loss when pauseOnFocusLoss is disabled", () => {
+    const { result } = renderHook(() => useToast(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <ToastProvider config={{ defaultDuration: 1000, pauseOnFocusLoss: false }}>{children}</ToastProvider>
+      ),
+    });
+
+    act(() => {
+      result.current.info("Keep going");
+      window.dispatchEvent(new Event("blur"));
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(result.current.toasts[0].removing).toBe(true);
+  });
+});
+
+describe("useToastTimer", () => {
+  function useToastWithTimer(id: string) {
+    return { toast: useToast(), timer: useToastTimer(id) };
+  }
+
+  it("should report the remaining time and progress of a toast", () => {
+    const { result } = renderHook(() => useToastWithTimer("timed"), { wrapper: TestWrapper });
+
+    act(() => {
+      result.current.toast.info("Timed", { id: "timed" });
+    });
+
+    act(() => {
+      vi.advanceTimersByTime(250);
+    });
+
+    expect(result.current.timer.paused).toBe(false);
+    // Updated once per animation frame, so allow one frame of drift
+    expect(result.current.timer.remaining).toBeGreaterThanOrEqual(750);
+    expect(result.current.timer.remaining).toBeLessThan(800);
+    expect(result.current.timer.progress).toBeCloseTo(result.current.timer.remaining / 1000);
+  });
+
+  it("should freeze while the timer is paused", () => {
+    const { result } = renderHook(() => useToastWithTimer("frozen"), { wrapper: TestWrapper });
+
+    act(() => {
+      result.current.toast.info("Frozen", { id: "frozen" });
+      vi.advanceTimersByTime(500);
+      window.dispatchEvent(new Event("blur"));
+    });
+
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+
+    const frozen = result.current.timer;
+    expect(frozen.paused).toBe(true);
+
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+
+    expect(result.current.timer.remaining).toBe(frozen.remaining);
+  });
+
+  it("should report an infinite remaining time for persistent toasts", () => {
+    const { result } = renderHook(() => useToastWithTimer("sticky"), { wrapper: TestWrapper });
+
+    act(() => {
+      result.current.toast.info("Sticky", { id: "sticky", duration: 0 });
+      vi.advanceTimersByTime(100);
+    });
+
+    expect(result.current.timer.remaining).toBe(Infinity);
+    expect(result.current.timer.progress).toBe(1);
+  });
+});
+
+describe("useToaster", () => {
+  function useToastAndToaster() {
+    return { toast: useToast(), toaster: useToaster() };
+  }
+
+  it("should group toasts by position", () => {
+    const { result } = renderHook(() => useToastAndToaster(), { wrapper: TestWrapper });
+
+    act(() => {
+      result.current.toast.info("Top", { position: "top-left" });
+      result.current.toast.info("Bottom", { position: "bottom-right" });
+      result.current.toast.info("Top again", { position: "top-left" });
+    });
+
+    expect(result.current.toaster.positions).toEqual(["top-left", "bottom-right"]);
+    expect(result.current.toaster.getToasts("top-left").map((t) => t.message)).toEqual(["Top again", "Top"]);
+  });
+
+  it("should provide root props and handlers for custom markup", () => {
+    const { result } = renderHook(() => useToastAndToaster(), { wrapper: TestWrapper });
+
+    act(() => {
+      result.current.toast.info("Custom", { id: "custom" });
+    });
+
+    const props = result.current.toaster.getToastProps(result.current.toaster.toasts[0]);
+    // The provider announces the toast; custom markup must not become a second live region
+    expect(props["aria-live"]).toBe("off");
+
+    act(() => {
+      props.onMouseEnter?.();
+      vi.advanceTimersByTime(5000);
+    });
+
+    expect(result.current.toaster.toasts[0].removing).toBe(false);
+
+    act(() => {
+      result.current.toaster.dismiss("custom");
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(result.current.toaster.toasts).toHaveLength(0);
+  });
+});
+
+describe("queueStrategy", () => {
+  function createWrapper(config: ToastConfig) {
+    return ({ children }: { children: ReactNode }) => (
+      <ToastProvider config={{ maxToasts: 2, defaultDuration: 1000, ...config }}>{children}</ToastProvider>
+    );
+  }
+
+  it("should call onClose for toasts evicted with drop-oldest", () => {
+    const onClose = vi.fn();
+    const { result } = renderHook(() => useToast(), { wrapper: createWrapper({}) });
+
+    act(() => {
+      result.current.info("Oldest", { onClose });
+      result.current.info("Middle");
+      result.current.info("Newest");
+    });
+
+    expect(result.current.toasts.map((t) => t.message)).toEqual(["Newest", "Middle"]);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("should discard the incoming toast with drop-newest", () => {
+    const onClose = vi.fn();
+    const { result } = renderHook(() => useToast(), { wrapper: createWrapper({ queueStrategy: "drop-newest" }) });
+
+    act(() => {
+      result.current.info("First");
+      result.current.info("Second");
+      result.current.info("Third", { onClose });
+    });
+
+    expect(result.current.toasts.map((t) => t.message)).toEqual(["Second", "First"]);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("should queue overflow toasts and show them as slots free up", () => {
+    const { result } = renderHook(() => useToast(), { wrapper: createWrapper({ queueStrategy: "queue" }) });
+
+    let firstId: string;
+    act(() => {
+      firstId = result.current.info("First", { duration: 0 });
+      result.current.info("Second", { duration: 0 });
+      result.current.info("Third");
+    });
+
+    expect(result.current.toasts).toHaveLength(2);
+    expect(result.current.queued.map((t) => t.message)).toEqual(["Third"]);
+
+    // Queued toasts do not run their timer
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+
+    expect(result.current.queued).toHaveLength(1);
+
+    act(() => {
+      result.current.dismiss(firstId!);
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(result.current.queued).toHaveLength(0);
+    expect(result.current.toasts.map((t) => t.message)).toEqual(["Third", "Second"]);
+
+    // Timer starts once the toast is shown
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(result.current.toasts[0].removing).toBe(true);
+  });
+
+  it("should keep queues per position", () => {
+    const { result } = renderHook(() => useToast(), {
+      wrapper: createWrapper({ queueStrategy: "queue", maxToasts: 1 }),
+    });
+
+    act(() => {
+      result.current.info("Top", { duration: 0 });
+      result.current.info("Bottom", { position: "bottom-center", duration: 0 });
+      result.current.info("Top queued");
+    });
+
+    expect(result.current.toasts.map((t) => t.message)).toEqual(["Bottom", "Top"]);
+    expect(result.current.queued.map((t) => t.message)).toEqual(["Top queued"]);
+  });
+
+  it("should limit the queue length with maxQueue", () => {
+    const onClose = vi.fn();
+    const { result } = renderHook(() => useToast(), {
+      wrapper: createWrapper({ queueStrategy: "queue", maxToasts: 1, maxQueue: 2 }),
+    });
+
+    act(() => {
+      result.current.info("Visible");
+      result.current.info("Queued 1", { onClose });
+      result.current.info("Queued 2");
+      result.current.info("Queued 3");
+    });
+
+    expect(result.current.queued.map((t) => t.message)).toEqual(["Queued 2", "Queued 3"]);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("should dismiss and update queued toasts", () => {
+    const onClose = vi.fn();
+    const { result } = renderHook(() => useToast(), {
+      wrapper: createWrapper({ queueStrategy: "queue", maxToasts: 1 }),
+    });
+
+    let queuedId: string;
+    act(() => {
+      result.current.info("Visible");
+      queuedId = result.current.info("Queued", { onClose });
+      result.current.update(queuedId, "Queued and updated");
+    });
+
+    expect(result.current.queued[0].message).toBe("Queued and updated");
+
+    act(() => {
+      result.current.dismiss(queuedId!);
+    });
+
+    expect(result.current.queued).toHaveLength(0);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("grouping", () => {
+  it("should group toasts with the same groupKey into one with a counter", () => {
+    const { result } = renderHook(() => useToast(), { wrapper: TestWrapper });
+
+    let ids: string[] = [];
+    act(() => {
+      ids = [
+        result.current.error("Request failed", { groupKey: "api" }),
+        result.current.error("Request failed again", { groupKey: "api" }),
+        result.current.error("Request failed", { groupKey: "api" }),
+      ];
+    });
+
+    expect(new Set(ids).size).toBe(1);
+    expect(result.current.toasts).toHaveLength(1);
+    expect(result.current.toasts[0].count).toBe(3);
+    expect(result.current.toasts[0].message).toBe("Request failed");
+  });
+
+  it("should reset the timer when a grouped toast is bumped", () => {
+    const { result } = renderHook(() => useToast(), { wrapper: TestWrapper });
+
+    act(() => {
+      result.current.error("Flaky", { groupKey: "flaky" });
+      vi.advanceTimersByTime(800);
+      result.current.error("Flaky", { groupKey: "flaky" });
+      vi.advanceTimersByTime(800);
+    });
+
+    expect(result.current.toasts[0].removing).toBe(false);
+
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+
+    expect(result.current.toasts[0].removing).toBe(true);
+  });
+
+  it("should only dedupe by type and message when deduplicate is enabled", () => {
+    const { result: plain } = renderHook(() => useToast(), { wrapper: TestWrapper });
+
+    act(() => {
+      plain.current.error("Same");
+      plain.current.error("Same");
+    });
+
+    expect(plain.current.toasts).toHaveLength(2);
+
+    const { result } = renderHook(() => useToast(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <ToastProvider config={{ deduplicate: true }}>{children}</ToastProvider>
+      ),
+    });
+
+    act(() => {
+      result.current.error("Same");
+      result.current.error("Same");
+      result.current.warning("Same");
+    });
+
+    expect(result.current.toasts).toHaveLength(2);
+    expect(result.current.toasts.find((t) => t.type === "error")?.count).toBe(2);
+    expect(result.current.toasts.find((t) => t.type === "warning")?.count).toBe(1);
+  });
+
+  it("should never group concurrent promise or progress toasts", async () => {
+    const store = createToastStore({ deduplicate: true });
+    const toast = createToastFunction(store);
+
+    const first = toast.progress("Uploading");
+    const second = toast.progress("Uploading");
+    expect(second.id).not.toBe(first.id);
+
+    first.succeed("Uploaded");
+    second.setProgress(50);
+    expect(store.getSnapshot().toasts.find((t) => t.id === second.id)?.progress?.value).toBe(50);
+
+    const saving = toast.promise(Promise.resolve(), { loading: "Saving", success: "Saved", error: "Failed" });
+    toast.promise(new Promise(() => {}), { loading: "Saving", success: "Saved", error: "Failed" });
+    await saving;
+
+    expect(store.getSnapshot().toasts.map((t) => t.message)).toEqual(["Saving", "Saved", "Uploading", "Uploaded"]);
+  });
+
+  it("should start a new group once the previous toast is dismissed", () => {
+    const { result } = renderHook(() => useToast(), { wrapper: TestWrapper });
+
+    let firstId: string, secondId: string;
+    act(() => {
+      firstId = result.current.info("Once", { groupKey: "once" });
+      result.current.dismiss(firstId);
+      secondId = result.current.info("Once", { groupKey: "once" });
+    });
+
+    expect(secondId!).not.toBe(firstId!);
+  });
+});
+
+describe("toast.promise", () => {
+  it("should morph the loading toast into a success toast with the same id", async () => {
+    const { result } = renderHook(() => useToast(), { wrapper: TestWrapper });
+
+    let resolveOperation: (value: string) => void;
+    const operation = new Promise<string>((resolve) => {
+      resolveOperation = resolve;
+    });
+
+    act(() => {
+      result.current.promise(operation, {
+        loading: "Saving...",
+        success: (value) => `Saved ${value}`,
+        error: "Failed",
+      });
+    });
+
+    expect(result.current.toasts).toHaveLength(1);
+    const { id } = result.current.toasts[0];
+    expect(result.current.toasts[0].type).toBe("loading");
+    expect(result.current.toasts[0].duration).toBe(0);
+
+    await act(async () => {
+      resolveOperation!("draft");
+      await operation;
+    });
+
+    expect(result.current.toasts).toHaveLength(1);
+    expect(result.current.toasts[0].id).toBe(id);
+    expect(result.current.toasts[0].type).toBe("success");
+    expect(result.current.toasts[0].message).toBe("Saved draft");
+    expect(result.current.toasts[0].duration).toBe(1000);
+  });
+
+  it("should keep the loading toast open past a base duration until the promise settles", async () => {
+    const { result } = renderHook(() => useToast(), { wrapper: TestWrapper });
+
+    let resolveOperation: () => void;
+    const operation = new Promise<void>((resolve) => {
+      resolveOperation = resolve;
+    });
+
+    act(() => {
+      result.current.promise(
+        operation,
+        { loading: "Saving...", success: "Saved", error: "Failed" },
+        { duration: 2000 },
+      );
+    });
+
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+
+    expect(result.current.toasts[0].type).toBe("loading");
+
+    await act(async () => {
+      resolveOperation!();
+      await operation;
+    });
+
+    expect(result.current.toasts[0].message).toBe("Saved");
+    expect(result.current.toasts[0].duration).toBe(2000);
+  });
+
+  it("should morph into an error toast with per-state options on rejection", async () => {
+    const { result } = renderHook(() => useToast(), { wrapper: TestWrapper });
+    const operation = Promise.reject(new Error("timeout"));
+
+    await act(async () => {
+      await result.current
+        .promise(
+          operation,
+          {
+            loading: "Saving...",
+            success: "Saved",
+            error: (error: Error) => `Failed: ${error.message}`,
+          },
+          { position: "bottom-center", error: { duration: 5000 } },
+        )
+        .catch(() => {});
+    });
+
+    expect(result.current.toasts).toHaveLength(1);
+    expect(result.current.toasts[0].type).toBe("error");
+    expect(result.current.toasts[0].message).toBe("Failed: timeout");
+    expect(result.current.toasts[0].position).toBe("bottom-center");
+    expect(result.current.toasts[0].duration).toBe(5000);
+  });
+
+  it("should return the original promise result", async () => {
+    const { result } = renderHook(() => useToast(), { wrapper: TestWrapper });
+
+    let value: number | undefined;
+    await act(async () => {
+      value = await result.current.promise(() => Promise.resolve(42), {
+        loading: "Loading",
+        success: "Done",
+        error: "Failed",
+      });
+    });
+
+    expect(value).toBe(42);
+  });
+});
+
+describe("toast.undoable", () => {
+  function showUndoable(onCommit = vi.fn(), onUndo = vi.fn()) {
+    const hook = renderHook(() => useToast(), { wrapper: TestWrapper });
+
+    let id = "";
+    act(() => {
+      id = hook.result.current.undoable({ message: "Deleted", onCommit, onUndo });
+    });
+
+    return { ...hook, id, onCommit, onUndo };
+  }
+
+  it("should commit once when the toast times out", () => {
+    const { result, onCommit, onUndo } = showUndoable();
+
+    expect(result.current.toasts[0].actions).toEqual([expect.objectContaining({ label: "Deshacer" })]);
+
+    act(() => {
+      vi.advanceTimersByTime(1000 + 300);
+    });
+
+    expect(result.current.toasts).toHaveLength(0);
+    expect(onCommit).toHaveBeenCalledTimes(1);
+    expect(onUndo).not.toHaveBeenCalled();
+  });
+
+  it("should undo instead of committing when the action is clicked", () => {
+    const { result, onCommit, onUndo } = showUndoable();
+
+    act(() => {
+      result.current.toasts[0].actions![0].onClick!();
+      vi.advanceTimersByTime(2000);
+    });
+
+    expect(onUndo).toHaveBeenCalledTimes(1);
+    expect(onCommit).not.toHaveBeenCalled();
+  });
+
+  it("should commit once on manual dismiss and on dismissAll", () => {
+    const first = showUndoable();
+
+    act(() => {
+      first.result.current.dismiss(first.id);
+      vi.advanceTimersByTime(300);
+      first.result.current.dismissAll();
+    });
+
+    expect(first.onCommit).toHaveBeenCalledTimes(1);
+    first.unmount();
+
+    const second = showUndoable();
+
+    act(() => {
+      second.result.current.dismissAll();
+      second.result.current.dismissAll();
+    });
+
+    expect(second.onCommit).toHaveBeenCalledTimes(1);
+  });
+
+  it("should commit once when the page unloads", () => {
+    const { result, onCommit } = showUndoable();
+
+    act(() => {
+      window.dispatchEvent(new Event("beforeunload"));
+      result.current.dismissAll();
+    });
+
+    expect(onCommit).toHaveBeenCalledTimes(1);
+  });
+
+  it("should commit when the provider unmounts", async () => {
+    const { unmount, onCommit, onUndo } = showUndoable();
+
+    unmount();
+    await Promise.resolve();
+
+    expect(onCommit).toHaveBeenCalledTimes(1);
+    expect(onUndo).not.toHaveBeenCalled();
+  });
+
+  it("should never group undoable toasts with identical messages", () => {
+    const store = createToastStore();
+    const { result } = renderHook(() => useToast(), {
+      wrapper: ({ children }: { children: ReactNode }) => (
+        <ToastProvider config={{ deduplicate: true }} store={store}>
+          {children}
+        </ToastProvider>
+      ),
+    });
+    const onCommit = vi.fn();
+
+    act(() => {
+      result.current.undoable({ message: "Deleted", onCommit });
+      result.current.undoable({ message: "Deleted", onCommit });
+    });
+
+    expect(result.current.toasts).toHaveLength(2);
+
+    act(() => {
+      result.current.dismissAll();
+    });
+
+    expect(onCommit).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("toasterId and nested providers", () => {
+  function Fire({ label, message, toasterId }: { label: string; message: string; toasterId?: string }) {
+    const toast = useToast({ toasterId });
+    return <button onClick={() => toast.info(message)}>{label}</button>;
+  }
+
+  function NestedApp({ forwardToParent }: { forwardToParent?: boolean }) {
+    return (
+      <ToastProvider toasterId="shell">
+        <div data-testid="shell">
+          <Toaster container={false} />
+        </div>
+        <ToastProvider forwardToParent={forwardToParent}>
+          <Fire label="Local" message="From widget" />
+          <Fire label="Shell" message="For the shell" toasterId="shell" />
+          <div data-testid="widget">
+            <Toaster container={false} />
+          </div>
+        </ToastProvider>
+      </ToastProvider>
+    );
+  }
+
+  it("should keep nested providers isolated from each other", () => {
+    render(<NestedApp />);
+
+    act(() => {
+      screen.getByText("Local").click();
+    });
+
+    expect(screen.getByTestId("widget")).toHaveTextContent("From widget");
+    expect(screen.getByTestId("shell")).not.toHaveTextContent("From widget");
+  });
+
+  it("should reach an ancestor provider by toasterId", () => {
+    render(<NestedApp />);
+
+    act(() => {
+      screen.getByText("Shell").click();
+    });
+
+    expect(screen.getByTestId("shell")).toHaveTextContent("For the shell");
+    expect(screen.getByTestId("widget")).not.toHaveTextContent("For the shell");
+  });
+
+  it("should forward every toast to the parent with forwardToParent", () => {
+    render(<NestedApp forwardToParent />);
+
+    act(() => {
+      screen.getByText("Local").click();
+    });
+
+    // The forwarding provider has no system of its own: both Toasters belong to the shell
+    expect(screen.getByTestId("shell")).toHaveTextContent("From widget");
+    expect(screen.getByTestId("widget")).toHaveTextContent("From widget");
+  });
+
+  it("should target a named Toaster inside the same provider", () => {
+    const store = createToastStore();
+
+    render(
+      <ToastProvider store={store}>
+        <Fire label="Sidebar" message="Sidebar only" toasterId="sidebar" />
+        <div data-testid="page">
+          <Toaster container={false} />
+        </div>
+        <div data-testid="sidebar">
+          <Toaster toasterId="sidebar" container={false} />
+        </div>
+      </ToastProvider>,
+    );
+
+    act(() => {
+      screen.getByText("Sidebar").click();
+      store.add("Page only");
+    });
+
+    expect(screen.getByTestId("sidebar")).toHaveTextContent("Sidebar only");
+    expect(screen.getByTestId("sidebar")).not.toHaveTextContent("Page only");
+    expect(screen.getByTestId("page")).toHaveTextContent("Page only");
+    expect(screen.getByTestId("page")).not.toHaveTextContent("Sidebar only");
+  });
+});
+
+describe("toast.progress", () => {
+  function renderProgress() {
+    const store = createToastStore({ defaultDuration: 1000 });
+
+    render(
+      <ToastProvider store={store}>
+        <Toaster />
+      </ToastProvider>,
+    );
+
+    let handle!: ReturnType<ReturnType<typeof useToast>["progress"]>;
+    act(() => {
+      handle = createToastFunction(store).progress("Uploading report.pdf", { value: 10, max: 200 });
+    });
+
+    return { store, handle };
+  }
+
+  it("should render an accessible progressbar that follows setProgress", () => {
+    const { handle } = renderProgress();
+
+    const bar = screen.getByRole("progressbar", { name: "Uploading report.pdf" });
+    expect(bar).toHaveAttribute("aria-valuenow", "10");
+    expect(bar).toHaveAttribute("aria-valuemax", "200");
+    expect(bar).toHaveAttribute("aria-valuetext", "5%");
+
+    act(() => handle.setProgress(150));
+    expect(bar).toHaveAttribute("aria-valuenow", "150");
+
+    act(() => handle.setProgress(500, "Almost there"));
+    expect(screen.getByRole("progressbar", { name: "Almost there" })).toHaveAttribute("aria-valuenow", "200");
+  });
+
+  it("should stay open and not dismissible until resolved", () => {
+    const { handle } = renderProgress();
+
+    act(() => {
+      vi.advanceTimersByTime(10000);
+    });
+
+    expect(document.querySelector("[data-toast-id]")).not.toHaveAttribute("data-state", "removing");
+    expect(screen.queryByLabelText("Cerrar notificación")).not.toBeInTheDocument();
+
+    act(() => handle.succeed("Uploaded"));
+
+    expect(screen.queryByRole("progressbar")).not.toBeInTheDocument();
+    expect(screen.getByText("Uploaded")).toBeInTheDocument();
+    expect(screen.getByLabelText("Cerrar notificación")).toBeInTheDocument();
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(document.querySelector("[data-toast-id]")).toHaveAttribute("data-state", "removing");
+  });
+
+  it("should fail as an error toast and not announce every progress step", () => {
+    const { store, handle } = renderProgress();
+    const announced = store.getSnapshot().announcements.polite;
+
+    act(() => handle.setProgress(50));
+    expect(store.getSnapshot().announcements.polite).toBe(announced);
+
+    act(() => handle.fail("Upload failed"));
+    expect(document.querySelector("[data-type='error']")).toHaveTextContent("Upload failed");
+  });
+});
+
 describe("useToastError", () => {
   it("should return wrapper function", () => {
     const { result } = renderHook(() => useToastError(), { wrapper: TestWrapper });
@@ -0,0 +1,100 @@
+import React from "react";
+import { Toast, ToastAriaLive, ToastAriaProps, ToastType } from "./types";
+
+/**
+ * Nombre legible de cada tipo de toast, usado como prefijo en los anuncios
+ */
+const TOAST_TYPE_LABELS: Record<ToastType, string> = {
+  success: "Éxito",
+  error: "Error",
+  warning: "Advertencia",
+  info: "Información",
+  loading: "Cargando",
+};
+
+/**
+ * Estilos para ocultar visualmente un elemento sin ocultarlo a los lectores de pantalla
+ */
+export const VISUALLY_HIDDEN_STYLE: React.CSSProperties = {
+  position: "absolute",
+  width: "1px",
+  height: "1px",
+  padding: 0,
+  margin: "-1px",
+  overflow: "hidden",
+  clip: "rect(0, 0, 0, 0)",
+  whiteSpace: "nowrap",
+  border: 0,
+};
+
+/**
+ * Cortesía con la que se anuncia un toast: la indicada en sus opciones o,
+ * por defecto, "assertive" para errores y "polite" para el resto
+ */
+export function getToastPoliteness(toast: Pick<Toast, "type" | "ariaLive">): ToastAriaLive {
+  return toast.ariaLive ?? (toast.type === "error" ? "assertive" : "polite");
+}
+
+/**
+ * Atributos ARIA que debe llevar el elemento raíz de un toast. Si el provider lo anuncia desde
+ * sus regiones vivas, el toast no es una región viva, para no anunciarlo dos veces; si no puede
+ * (p. ej. un mensaje JSX), el propio toast se anuncia con el rol de su tipo.
+ * Se comparten entre el markup por defecto y los toasts renderizados con `renderToast`.
+ */
+export function getToastAriaProps(toast: Toast): ToastAriaProps {
+  const politeness = getToastPoliteness(toast);
+  if (toast.announce === false || politeness === "off" || getToastAnnouncement(toast) !== null) {
+    return { "aria-live": "off" };
+  }
+
+  return {
+    role: politeness === "assertive" ? "alert" : "status",
+    "aria-live": politeness,
+    "aria-atomic": true,
+  };
+}
+
+/**
+ * Texto a anunciar por la región viva del provider para un toast, o null si no se anuncia.
+ * Se anuncian el título, el mensaje y la descripción salvo que `announce` proporcione un
+ * texto alternativo. Si alguna de esas partes no es texto, el provider no puede anunciarla
+ * y devuelve null: el toast se anuncia entonces a sí mismo (`getToastAriaProps`).
+ */
+export function getToastAnnouncement(toast: Toast): string | null {
+  if (toast.announce === false || getToastPoliteness(toast) === "off") return null;
+  if (typeof toast.announce === "string") return `${TOAST_TYPE_LABELS[toast.type]}: ${toast.announce}`;
+
+  const parts = [toast.title, toast.message, toast.description].filter(
+    (part) => part !== undefined && part !== null && part !== false && part !== "",
+  );
+  if (parts.some((part) => typeof part !== "string" && typeof part !== "number")) return null;
+
+  const text = parts.map(String).join(". ");
+  return text ? `${TOAST_TYPE_LABELS[toast.type]}: ${text}` : null;
+}
+
+/**
+ * Comprueba si un evento de teclado coincide con un atajo del tipo "Alt+T" o "Ctrl+Shift+N".
+ * La tecla se compara tanto con `key` como con `code` para que Alt+T funcione en macOS.
+ */
+export function matchesHotkey(event: KeyboardEvent, hotkey: string): boolean {
+  const parts = hotkey
+    .split("+")
+    .map((part) => part.trim().toLowerCase())
+    .filter(Boolean);
+  const key = parts.pop();
+  if (!key) return false;
+
+  const modifiers = {
+    alt: event.altKey,
+    ctrl: event.ctrlKey,
+    shift: event.shiftKey,
+    meta: event.metaKey,
+  };
+
+  for (const [modifier, pressed] of Object.entries(modifiers)) {
+    if (parts.includes(modifier) !== pressed) return false;
+  }
+
+  return event.key.toLowerCase() === key || event.code.toLowerCase() === `key${key}`;
+}
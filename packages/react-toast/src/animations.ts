@@ -0,0 +1,59 @@
+import { ToastAnimation, ToastAnimationPreset, ToastPosition } from "./types";
+
+/**
+ * Desplazamiento desde el borde más cercano: lateral en las esquinas, vertical en el centro
+ */
+function getSlideTransform(position: ToastPosition): string {
+  if (position.endsWith("left")) return "translateX(-100%)";
+  if (position.endsWith("right")) return "translateX(100%)";
+  return position.startsWith("top") ? "translateY(-100%)" : "translateY(100%)";
+}
+
+/**
+ * Animaciones incluidas
+ */
+export const TOAST_ANIMATIONS: Record<ToastAnimationPreset, ToastAnimation> = {
+  slide: {
+    enter: (position) => ({ transform: getSlideTransform(position), opacity: 0 }),
+    exit: (position) => ({ transform: getSlideTransform(position), opacity: 0 }),
+    duration: 300,
+    easing: "ease",
+  },
+  fade: {
+    enter: () => ({ opacity: 0 }),
+    exit: () => ({ opacity: 0 }),
+    duration: 200,
+    easing: "ease",
+  },
+  scale: {
+    enter: () => ({ transform: "scale(0.9)", opacity: 0 }),
+    exit: () => ({ transform: "scale(0.9)", opacity: 0 }),
+    duration: 200,
+    easing: "ease-out",
+  },
+  none: {
+    enter: () => ({}),
+    exit: () => ({}),
+    duration: 0,
+  },
+};
+
+/**
+ * Animación usada con movimiento reducido: un fundido corto sin desplazamientos
+ */
+const REDUCED_MOTION_ANIMATION: ToastAnimation = { ...TOAST_ANIMATIONS.fade, duration: 150 };
+
+/**
+ * Resuelve un preset o una animación propia, sustituyéndola si hay que reducir el movimiento
+ */
+export function resolveToastAnimation(
+  animation: ToastAnimationPreset | ToastAnimation,
+  reduceMotion: boolean,
+): ToastAnimation {
+  const resolved = typeof animation === "string" ? TOAST_ANIMATIONS[animation] : animation;
+
+  if (reduceMotion && resolved.duration > 0) {
+    return REDUCED_MOTION_ANIMATION;
+  }
+  return resolved;
+}
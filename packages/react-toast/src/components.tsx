@@ -1,6 +1,25 @@
-import React, { useEffect, useRef } from "react";
-import { useToastContext } from "./context";
-import { Toast, ToastPosition, ToastContainerProps, ToastItemProps } from "./types";
+"use client";
+
+import React, { useCallback, useEffect, useId, useRef, useState, useSyncExternalStore } from "react";
+import { createPortal } from "react-dom";
+import { getToastAriaProps } from "./a11y";
+import { resolveToastAnimation } from "./animations";
+import { useIsomorphicLayoutEffect, useToastContext } from "./context";
+import { useMediaQuery } from "./media";
+import { getThemeVariables, getToastThemeTokens, resolveToastTheme, useColorScheme } from "./theme";
+import { useToaster, useToastHistory, useToastTimer } from "./useToast";
+import {
+  Toast,
+  ToastActionVariant,
+  ToastClassNames,
+  ToastPosition,
+  ToastProgressValue,
+  ToastContainerProps,
+  ToastInboxProps,
+  ToastItemProps,
+  ToasterProps,
+  ToastSwipeDirection,
+} from "./types";
 
 /**
  * Iconos por defecto para cada tipo de toast
@@ -39,23 +58,12 @@ const TOAST_STYLES = {
     fontFamily: "system-ui, -apple-system, sans-serif",
     pointerEvents: "auto" as const,
     cursor: "default",
-    transition: "all 0.3s ease",
-    transform: "translateX(0)",
+    transform: "none",
     opacity: 1,
-    marginBottom: "8px",
     maxWidth: "400px",
     wordWrap: "break-word" as const,
-  },
-
-  // Estados de animación
-  entering: {
-    transform: "translateX(100%)",
-    opacity: 0,
-  },
-
-  removing: {
-    transform: "translateX(100%)",
-    opacity: 0,
+    position: "relative" as const,
+    overflow: "hidden" as const,
   },
 
   // Botón de cerrar
@@ -81,35 +89,227 @@ const TOAST_STYLES = {
     marginLeft: "8px",
     transition: "all 0.2s",
   },
-} as const;
 
-/**
- * Colores para cada tipo de toast
- */
-const TOAST_COLORS = {
-  filled: {
-    success: { background: "#10b981", color: "#ffffff" },
-    error: { background: "#ef4444", color: "#ffffff" },
-    warning: { background: "#f59e0b", color: "#ffffff" },
-    info: { background: "#3b82f6", color: "#ffffff" },
-    loading: { background: "#6b7280", color: "#ffffff" },
+  // Título y descripción
+  title: {
+    fontWeight: 600,
   },
-  outlined: {
-    success: { background: "#ffffff", color: "#10b981", border: "1px solid #10b981" },
-    error: { background: "#ffffff", color: "#ef4444", border: "1px solid #ef4444" },
-    warning: { background: "#ffffff", color: "#f59e0b", border: "1px solid #f59e0b" },
-    info: { background: "#ffffff", color: "#3b82f6", border: "1px solid #3b82f6" },
-    loading: { background: "#ffffff", color: "#6b7280", border: "1px solid #6b7280" },
+
+  description: {
+    fontSize: "13px",
+    opacity: 0.85,
+    marginTop: "2px",
   },
-  minimal: {
-    success: { background: "#f0fdf4", color: "#10b981", border: "1px solid #bbf7d0" },
-    error: { background: "#fef2f2", color: "#ef4444", border: "1px solid #fecaca" },
-    warning: { background: "#fffbeb", color: "#f59e0b", border: "1px solid #fed7aa" },
-    info: { background: "#eff6ff", color: "#3b82f6", border: "1px solid #bfdbfe" },
-    loading: { background: "#f9fafb", color: "#6b7280", border: "1px solid #d1d5db" },
+
+  // Grupo de botones de `actions`
+  actions: {
+    display: "flex",
+    gap: "6px",
+    flexShrink: 0,
+    marginLeft: "8px",
+  },
+
+  // Contador de toasts agrupados
+  countBadge: {
+    flexShrink: 0,
+    fontSize: "12px",
+    fontWeight: 600,
+    opacity: 0.8,
+  },
+
+  // Barra de progreso determinado de `toast.progress`
+  determinateTrack: {
+    height: "4px",
+    marginTop: "6px",
+    borderRadius: "2px",
+    overflow: "hidden" as const,
+    backgroundColor: "rgba(127, 127, 127, 0.25)",
+  },
+
+  determinateValue: {
+    width: "var(--toast-progress)",
+    height: "100%",
+    transition: "width 0.2s ease",
+  },
+
+  // Barra de tiempo restante
+  progressBar: {
+    position: "absolute" as const,
+    left: 0,
+    bottom: 0,
+    height: "3px",
+    opacity: 0.5,
+    pointerEvents: "none" as const,
   },
 } as const;
 
+/**
+ * Colores neutros del ToastInbox en cada modo; los enlaces usan el color de los toasts "info"
+ */
+const INBOX_COLORS = {
+  light: { background: "#ffffff", color: "#111827", border: "#e5e7eb", divider: "#f3f4f6" },
+  dark: { background: "#111827", color: "#f9fafb", border: "#374151", divider: "#1f2937" },
+} as const;
+
+/**
+ * Estilos CSS en línea para el ToastInbox con los colores del modo activo
+ */
+function getInboxStyles(scheme: "light" | "dark", accent: string) {
+  const colors = INBOX_COLORS[scheme];
+
+  return {
+    panel: {
+      width: "360px",
+      border: `1px solid ${colors.border}`,
+      borderRadius: "8px",
+      background: colors.background,
+      color: colors.color,
+      fontSize: "14px",
+      fontFamily: "system-ui, -apple-system, sans-serif",
+    },
+
+    header: {
+      display: "flex",
+      alignItems: "center",
+      gap: "8px",
+      padding: "12px 16px",
+      borderBottom: `1px solid ${colors.border}`,
+    },
+
+    heading: {
+      margin: 0,
+      fontSize: "15px",
+      fontWeight: 600,
+      flex: 1,
+    },
+
+    list: {
+      listStyle: "none",
+      margin: 0,
+      padding: 0,
+      maxHeight: "400px",
+      overflowY: "auto" as const,
+    },
+
+    entry: {
+      display: "flex",
+      gap: "8px",
+      padding: "10px 16px",
+      borderBottom: `1px solid ${colors.divider}`,
+    },
+
+    button: {
+      background: "none",
+      border: "none",
+      padding: 0,
+      fontSize: "12px",
+      color: accent,
+      cursor: "pointer",
+    },
+
+    empty: {
+      margin: 0,
+      padding: "24px 16px",
+      textAlign: "center" as const,
+      opacity: 0.7,
+    },
+  };
+}
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+/**
+ * Keyframes compartidos por todos los containers
+ */
+const TOAST_KEYFRAMES = `
+@keyframes spin {
+  from { transform: rotate(0deg); }
+  to { transform: rotate(360deg); }
+}
+`;
+
+const STYLE_ELEMENT_ID = "complete-react-toast-styles";
+
+/**
+ * Inserta los keyframes una sola vez por documento o shadow root, por muchos containers
+ * que haya montados. En un documento van a `<head>`; en un shadow root, dentro de él.
+ */
+function injectToastStyles(root: Node) {
+  // Se compara nodeType y no instanceof: en un iframe los nodos son de otro realm
+  if (root.nodeType !== Node.DOCUMENT_NODE && root.nodeType !== Node.DOCUMENT_FRAGMENT_NODE) return;
+
+  const scope = root as Document | ShadowRoot;
+  if (scope.getElementById(STYLE_ELEMENT_ID)) return;
+
+  const ownerDocument = root.nodeType === Node.DOCUMENT_NODE ? (root as Document) : root.ownerDocument!;
+  const style = ownerDocument.createElement("style");
+  style.id = STYLE_ELEMENT_ID;
+  style.textContent = TOAST_KEYFRAMES;
+  (root.nodeType === Node.DOCUMENT_NODE ? ownerDocument.head : root).appendChild(style);
+}
+
+const subscribeToNothing = () => () => {};
+
+/**
+ * false en el servidor y durante la hidratación; true en cualquier otro render del cliente
+ */
+function useIsHydrated(): boolean {
+  return useSyncExternalStore(
+    subscribeToNothing,
+    () => true,
+    () => false,
+  );
+}
+
+/**
+ * Une clases CSS ignorando las vacías
+ */
+function joinClassNames(...classNames: (string | undefined)[]): string | undefined {
+  return classNames.filter(Boolean).join(" ") || undefined;
+}
+
+/**
+ * Parámetros del layout "stack"
+ */
+const STACK_WIDTH = 356;
+/** Píxeles que asoma cada toast por detrás del anterior cuando la pila está colapsada */
+const STACK_PEEK = 10;
+/** Reducción de escala por nivel de profundidad */
+const STACK_SCALE_STEP = 0.05;
+/** Número de toasts visibles en la pila colapsada */
+const STACK_VISIBLE = 3;
+
+/**
+ * Calcula la posición de un toast dentro de la pila: superpuestos con escala por profundidad
+ * cuando está colapsada, o en lista usando las alturas medidas cuando está expandida
+ */
+function getStackItemStyle(
+  index: number,
+  total: number,
+  offsetBefore: number,
+  position: ToastPosition,
+  expanded: boolean,
+): React.CSSProperties {
+  const isTop = position.startsWith("top");
+  const direction = isTop ? 1 : -1;
+  const offset = expanded ? offsetBefore : index * STACK_PEEK;
+  const scale = expanded ? 1 : 1 - index * STACK_SCALE_STEP;
+
+  return {
+    position: "absolute",
+    [isTop ? "top" : "bottom"]: 0,
+    left: 0,
+    right: 0,
+    display: "flex",
+    justifyContent: position.endsWith("left") ? "flex-start" : position.endsWith("right") ? "flex-end" : "center",
+    transform: `translateY(${direction * offset}px) scale(${scale})`,
+    transformOrigin: isTop ? "top center" : "bottom center",
+    transition: "transform 0.3s ease, opacity 0.3s ease",
+    opacity: !expanded && index >= STACK_VISIBLE ? 0 : 1,
+    zIndex: total - index,
+  };
+}
+
 /**
  * Calcula la posición CSS para un container de toasts
  */
@@ -141,41 +341,290 @@ function getPositionStyles(position: ToastPosition, offset: { x?: number; y?: nu
   return styles;
 }
 
+/**
+ * Velocidad mínima (px/ms) de un swipe rápido para cerrar el toast aunque no alcance la distancia
+ */
+const SWIPE_VELOCITY_THRESHOLD = 0.5;
+
+/**
+ * Distancia en píxeles a partir de la cual un gesto se trata como swipe y captura el puntero.
+ * Por debajo es un clic y los botones del toast lo reciben con normalidad.
+ */
+const SWIPE_CAPTURE_DISTANCE = 4;
+
+/**
+ * Elementos interactivos sobre los que no empieza un swipe
+ */
+const SWIPE_IGNORED_TARGETS = "button, a, input, select, textarea, [role='button']";
+
+/**
+ * Dirección por defecto del swipe según la posición: hacia el borde lateral más cercano,
+ * o hacia arriba/abajo en las posiciones centradas
+ */
+function getSwipeDirection(position: ToastPosition): ToastSwipeDirection {
+  if (position.endsWith("right")) return "right";
+  if (position.endsWith("left")) return "left";
+  return position.startsWith("top") ? "up" : "down";
+}
+
+/**
+ * Aplica resistencia cuando se arrastra en sentido contrario al de cierre
+ */
+function rubberBand(distance: number): number {
+  return distance >= 0 ? distance : -Math.sqrt(-distance) * 2;
+}
+
+/**
+ * Hook que implementa el gesto de deslizar para cerrar con pointer events.
+ * Devuelve los manejadores a aplicar al toast y el estilo de arrastre.
+ */
+function useSwipeToDismiss({
+  enabled,
+  direction,
+  threshold,
+  onStart,
+  onCancel,
+  onDismiss,
+}: {
+  enabled: boolean;
+  direction: ToastSwipeDirection;
+  threshold: number;
+  onStart: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}) {
+  const startRef = useRef<{ pointerId: number; x: number; y: number; time: number; captured: boolean } | null>(null);
+  const [offset, setOffset] = useState<number | null>(null);
+  const [swiped, setSwiped] = useState(false);
+
+  const horizontal = direction === "left" || direction === "right";
+  const sign = direction === "right" || direction === "down" ? 1 : -1;
+  const axis = horizontal ? "X" : "Y";
+
+  // Una vez deslizado, el toast sale en la dirección del gesto aunque ya esté en animación de salida
+  if (swiped) {
+    return { handlers: {}, style: { transform: `translate${axis}(${sign * 100}%)`, opacity: 0 } };
+  }
+
+  if (!enabled) {
+    return { handlers: {}, style: {} };
+  }
+
+  const getDistance = (event: React.PointerEvent) => {
+    const start = startRef.current!;
+    return (horizontal ? event.clientX - start.x : event.clientY - start.y) * sign;
+  };
+
+  const finish = (event: React.PointerEvent, cancelled: boolean) => {
+    if (!startRef.current || startRef.current.pointerId !== event.pointerId) return;
+
+    const distance = getDistance(event);
+    const velocity = distance / Math.max(Date.now() - startRef.current.time, 1);
+    // Sin llegar a capturar el puntero el gesto era un clic, no un swipe
+    const swiping = startRef.current.captured;
+    startRef.current = null;
+    setOffset(null);
+
+    if (!cancelled && swiping && (distance >= threshold || (distance > 0 && velocity >= SWIPE_VELOCITY_THRESHOLD))) {
+      setSwiped(true);
+      onDismiss();
+    } else {
+      onCancel();
+    }
+  };
+
+  const handlers = {
+    onPointerDown: (event: React.PointerEvent) => {
+      if (event.pointerType === "mouse" && event.button !== 0) return;
+      if ((event.target as Element).closest?.(SWIPE_IGNORED_TARGETS)) return;
+
+      startRef.current = {
+        pointerId: event.pointerId,
+        x: event.clientX,
+        y: event.clientY,
+        time: Date.now(),
+        captured: false,
+      };
+      onStart();
+    },
+    onPointerMove: (event: React.PointerEvent) => {
+      const start = startRef.current;
+      if (!start || start.pointerId !== event.pointerId) return;
+
+      const distance = getDistance(event);
+      if (!start.captured) {
+        if (Math.abs(distance) < SWIPE_CAPTURE_DISTANCE) return;
+        start.captured = true;
+        event.currentTarget.setPointerCapture?.(event.pointerId);
+      }
+      setOffset(rubberBand(distance));
+    },
+    onPointerUp: (event: React.PointerEvent) => finish(event, false),
+    onPointerCancel: (event: React.PointerEvent) => finish(event, true),
+  };
+
+  let style: React.CSSProperties = { touchAction: horizontal ? "pan-y" : "pan-x" };
+
+  if (offset !== null) {
+    style = {
+      ...style,
+      transform: `translate${axis}(${offset * sign}px)`,
+      opacity: 1 - Math.min(Math.max(offset, 0) / (threshold * 4), 0.5),
+      transition: "none",
+    };
+  }
+
+  return { handlers, style };
+}
+
+/**
+ * Barra de progreso determinado de `toast.progress`
+ */
+function ToastDeterminateProgress({
+  progress,
+  color,
+  labelledBy,
+  className,
+  unstyled,
+}: {
+  progress: ToastProgressValue;
+  color: string;
+  labelledBy?: string;
+  className?: string;
+  unstyled: boolean;
+}) {
+  const max = progress.max ?? 100;
+  const percent = max > 0 ? Math.round((progress.value / max) * 100) : 0;
+
+  return (
+    <div
+      role="progressbar"
+      aria-valuemin={0}
+      aria-valuemax={max}
+      aria-valuenow={progress.value}
+      aria-valuetext={`${percent}%`}
+      aria-labelledby={labelledBy}
+      className={className}
+      // Sin estilos solo se emite `--toast-progress`, para usarlo como ancho desde CSS propio
+      style={{
+        ...(unstyled ? undefined : TOAST_STYLES.determinateTrack),
+        ["--toast-progress" as string]: `${percent}%`,
+      }}
+    >
+      <div style={unstyled ? undefined : { ...TOAST_STYLES.determinateValue, backgroundColor: color }} />
+    </div>
+  );
+}
+
+/**
+ * Barra que muestra el tiempo restante de un toast y se congela mientras está pausado
+ */
+function ToastProgressBar({
+  id,
+  color,
+  className,
+  unstyled,
+}: {
+  id: string;
+  color: string;
+  className?: string;
+  unstyled: boolean;
+}) {
+  const { progress, paused } = useToastTimer(id);
+  const width = `${progress * 100}%`;
+
+  return (
+    <div
+      className={className}
+      // Sin estilos se mantiene el ancho, que es lo que comunica el tiempo restante
+      style={unstyled ? { width } : { ...TOAST_STYLES.progressBar, width, background: color }}
+      data-paused={paused || undefined}
+      aria-hidden="true"
+    />
+  );
+}
+
 /**
  * Componente individual de toast
  */
-function ToastItem({ toast, onDismiss, config }: ToastItemProps) {
+function ToastItem({
+  toast,
+  onDismiss,
+  onPause,
+  onResume,
+  config,
+  render,
+  onRegister,
+  onRemove,
+  onHeightChange,
+}: ToastItemProps) {
   const ref = useRef<HTMLDivElement>(null);
 
-  // Manejar animaciones de entrada
+  // Registrar el elemento para la gestión del foco por teclado
   useEffect(() => {
-    if (ref.current && toast.visible && !toast.removing) {
-      // Forzar animación de entrada
-      const element = ref.current;
-      element.style.transform = "translateX(100%)";
-      element.style.opacity = "0";
-
-      requestAnimationFrame(() => {
-        element.style.transform = "translateX(0)";
-        element.style.opacity = "1";
-      });
-    }
-  }, [toast.visible, toast.removing]);
+    onRegister?.(toast.id, ref.current);
+    return () => onRegister?.(toast.id, null);
+  }, [toast.id, onRegister]);
+
+  // Medir la altura real del toast para el layout "stack"
+  useIsomorphicLayoutEffect(() => {
+    const element = ref.current;
+    if (!element || !onHeightChange) return;
+
+    const measure = () => onHeightChange(toast.id, element.offsetHeight);
+    measure();
+
+    if (typeof ResizeObserver === "undefined") return;
+
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [toast.id, onHeightChange]);
+
+  // Animación configurada, sustituida por un fundido corto si hay que reducir el movimiento
+  const prefersReducedMotion = useMediaQuery(REDUCED_MOTION_QUERY, config.reducedMotion === "user");
+  const animation = resolveToastAnimation(
+    config.animation,
+    config.reducedMotion === "always" || (config.reducedMotion === "user" && prefersReducedMotion),
+  );
+
+  // Pasar de "entering" a "visible" en el siguiente frame
+  const [entered, setEntered] = useState(false);
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => setEntered(true));
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  // Eliminar el toast en cuanto termina su animación de salida (el store tiene un timeout de respaldo)
+  useEffect(() => {
+    const element = ref.current;
+    if (!toast.removing || !element || !onRemove) return;
+
+    const handleEnd = (event: Event) => {
+      if (event.target === element) onRemove(toast.id);
+    };
+
+    element.addEventListener("transitionend", handleEnd);
+    element.addEventListener("animationend", handleEnd);
+
+    return () => {
+      element.removeEventListener("transitionend", handleEnd);
+      element.removeEventListener("animationend", handleEnd);
+    };
+  }, [toast.removing, toast.id, onRemove]);
 
   // Pausar/reanudar timer en hover
   useEffect(() => {
     if (!config.pauseOnHover || !ref.current) return;
 
     const element = ref.current;
-    let pauseTimeout: NodeJS.Timeout;
 
     const handleMouseEnter = () => {
-      // Aquí se podría pausar el timer del toast
-      element.style.transform = "scale(1.02)";
+      onPause?.(toast.id);
     };
 
     const handleMouseLeave = () => {
-      element.style.transform = "scale(1)";
+      onResume?.(toast.id);
     };
 
     element.addEventListener("mouseenter", handleMouseEnter);
@@ -185,17 +634,72 @@ function ToastItem({ toast, onDismiss, config }: ToastItemProps) {
       element.removeEventListener("mouseenter", handleMouseEnter);
       element.removeEventListener("mouseleave", handleMouseLeave);
     };
-  }, [config.pauseOnHover]);
+  }, [config.pauseOnHover, toast.id, onPause, onResume]);
 
-  const colors = TOAST_COLORS[toast.variant][toast.type];
-  const icon = toast.icon ?? DEFAULT_ICONS[toast.type];
+  // Deslizar para cerrar
+  const swipe = useSwipeToDismiss({
+    enabled: toast.swipeToDismiss && toast.dismissible && !toast.removing,
+    direction: config.swipeDirections[toast.position] ?? getSwipeDirection(toast.position),
+    threshold: config.swipeThreshold,
+    onStart: () => onPause?.(toast.id, "swipe"),
+    onCancel: () => onResume?.(toast.id, "swipe"),
+    onDismiss: () => onDismiss(toast.id, "user"),
+  });
+
+  // Clases de la configuración global seguidas de las del propio toast
+  const getClassName = (part: keyof ToastClassNames) =>
+    joinClassNames(config.classNames[part], toast.classNames?.[part]);
 
-  const toastStyle: React.CSSProperties = {
-    ...TOAST_STYLES.toast,
-    ...colors,
-    ...(toast.removing ? TOAST_STYLES.removing : {}),
+  const rootProps = {
+    ref,
+    tabIndex: 0,
+    className: getClassName("toast"),
+    "data-toast-id": toast.id,
+    "data-type": toast.type,
+    "data-priority": toast.priority,
+    "data-variant": toast.variant,
+    "data-position": toast.position,
+    "data-state": toast.removing ? "removing" : entered ? "visible" : "entering",
+    ...swipe.handlers,
+    ...getToastAriaProps(toast),
   };
 
+  // Renderizado headless: solo se conservan los atributos ARIA, la pausa en hover y el swipe
+  if (render) {
+    return (
+      <div {...rootProps} style={{ pointerEvents: "auto", ...swipe.style }}>
+        {render(toast, {
+          dismiss: () => onDismiss(toast.id, "user"),
+          pause: () => onPause?.(toast.id),
+          resume: () => onResume?.(toast.id),
+        })}
+      </div>
+    );
+  }
+
+  const unstyled = toast.unstyled;
+  const colors = getToastThemeTokens(toast.variant, toast.type);
+  const icon = toast.icon ?? DEFAULT_ICONS[toast.type];
+
+  // Estado oculto del que parte al entrar y al que llega al salir
+  let animationStyle: React.CSSProperties = {};
+  if (toast.removing) {
+    animationStyle = animation.exit(toast.position);
+  } else if (!entered) {
+    animationStyle = animation.enter(toast.position);
+  }
+
+  // Sin estilos solo se conserva el desplazamiento del swipe
+  const toastStyle: React.CSSProperties = unstyled
+    ? swipe.style
+    : {
+        ...TOAST_STYLES.toast,
+        transition: animation.duration > 0 ? `all ${animation.duration}ms ${animation.easing ?? "ease"}` : "none",
+        ...colors,
+        ...animationStyle,
+        ...swipe.style,
+      };
+
   const closeButtonStyle: React.CSSProperties = {
     ...TOAST_STYLES.closeButton,
     color: colors.color,
@@ -207,32 +711,100 @@ function ToastItem({ toast, onDismiss, config }: ToastItemProps) {
     borderColor: colors.color,
   };
 
+  // Estilos de los botones de `actions`: el principal invierte los colores del toast
+  const getActionStyle = (variant: ToastActionVariant): React.CSSProperties => {
+    if (variant === "primary") {
+      return { ...actionButtonStyle, marginLeft: 0, backgroundColor: colors.color, color: colors.background };
+    }
+    if (variant === "cancel") {
+      return { ...actionButtonStyle, marginLeft: 0, borderColor: "transparent", opacity: 0.8 };
+    }
+    return { ...actionButtonStyle, marginLeft: 0 };
+  };
+
+  // Título, mensaje y descripción con IDs propios para etiquetar el toast
+  const hasMessage = toast.message !== null && toast.message !== undefined && toast.message !== "";
+  const titleId = `${toast.id}-title`;
+  const messageId = `${toast.id}-message`;
+  const descriptionId = `${toast.id}-description`;
+  const describedBy = [hasMessage && messageId, toast.description && descriptionId].filter(Boolean).join(" ");
+  const labellingProps = toast.title
+    ? { "aria-labelledby": titleId, "aria-describedby": describedBy || undefined }
+    : {};
+
   return (
-    <div ref={ref} style={toastStyle} role="alert" aria-live="polite" aria-atomic="true">
+    <div {...rootProps} {...labellingProps} style={toastStyle}>
       {icon && (
         <span
-          style={{
-            fontSize: "16px",
-            flexShrink: 0,
-            animation: toast.type === "loading" ? "spin 1s linear infinite" : undefined,
-          }}
+          className={getClassName("icon")}
+          style={
+            unstyled
+              ? undefined
+              : {
+                  fontSize: "16px",
+                  flexShrink: 0,
+                  animation: toast.type === "loading" ? "spin 1s linear infinite" : undefined,
+                }
+          }
           aria-hidden="true"
         >
           {icon}
         </span>
       )}
 
-      <div style={{ flex: 1, minWidth: 0 }}>{toast.message}</div>
+      <div className={getClassName("content")} style={unstyled ? undefined : { flex: 1, minWidth: 0 }}>
+        {toast.title && (
+          <div id={titleId} className={getClassName("title")} style={unstyled ? undefined : TOAST_STYLES.title}>
+            {toast.title}
+          </div>
+        )}
+        {hasMessage && (
+          <div id={messageId} className={getClassName("message")}>
+            {toast.message}
+          </div>
+        )}
+        {toast.description && (
+          <div
+            id={descriptionId}
+            className={getClassName("description")}
+            style={unstyled ? undefined : TOAST_STYLES.description}
+          >
+            {toast.description}
+          </div>
+        )}
+        {toast.progress && (
+          <ToastDeterminateProgress
+            progress={toast.progress}
+            color={colors.color}
+            labelledBy={toast.title ? titleId : hasMessage ? messageId : undefined}
+            className={getClassName("progressbar")}
+            unstyled={unstyled}
+          />
+        )}
+      </div>
+
+      {toast.count > 1 && (
+        <span
+          className={getClassName("badge")}
+          style={unstyled ? undefined : TOAST_STYLES.countBadge}
+          aria-label={`Repetida ${toast.count} veces`}
+        >
+          ×{toast.count}
+        </span>
+      )}
 
       {toast.action && (
         <button
-          style={actionButtonStyle}
+          className={getClassName("action")}
+          style={unstyled ? undefined : actionButtonStyle}
           onClick={toast.action.onClick}
           onMouseEnter={(e) => {
+            if (unstyled) return;
             e.currentTarget.style.backgroundColor = colors.color;
             e.currentTarget.style.color = colors.background;
           }}
           onMouseLeave={(e) => {
+            if (unstyled) return;
             e.currentTarget.style.backgroundColor = "transparent";
             e.currentTarget.style.color = colors.color;
           }}
@@ -241,14 +813,47 @@ function ToastItem({ toast, onDismiss, config }: ToastItemProps) {
         </button>
       )}
 
+      {toast.actions && toast.actions.length > 0 && (
+        <div
+          role="group"
+          aria-label="Acciones de la notificación"
+          className={getClassName("actions")}
+          style={unstyled ? undefined : TOAST_STYLES.actions}
+        >
+          {toast.actions.map((action, index) => {
+            const variant = action.variant ?? "secondary";
+
+            return (
+              <button
+                key={`${action.label}-${index}`}
+                type="button"
+                className={getClassName("action")}
+                style={unstyled ? undefined : getActionStyle(variant)}
+                data-action-variant={variant}
+                aria-label={action.ariaLabel}
+                onClick={() => {
+                  action.onClick?.();
+                  if (action.dismissOnClick ?? true) onDismiss(toast.id, "action");
+                }}
+              >
+                {action.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {toast.dismissible && (
         <button
-          style={closeButtonStyle}
-          onClick={() => onDismiss(toast.id)}
+          className={getClassName("close")}
+          style={unstyled ? undefined : closeButtonStyle}
+          onClick={() => onDismiss(toast.id, "user")}
           onMouseEnter={(e) => {
+            if (unstyled) return;
             e.currentTarget.style.opacity = "1";
           }}
           onMouseLeave={(e) => {
+            if (unstyled) return;
             e.currentTarget.style.opacity = "0.7";
           }}
           aria-label="Cerrar notificación"
@@ -256,6 +861,10 @@ function ToastItem({ toast, onDismiss, config }: ToastItemProps) {
           ✕
         </button>
       )}
+
+      {toast.showProgress && toast.duration > 0 && (
+        <ToastProgressBar id={toast.id} color={colors.color} className={getClassName("progress")} unstyled={unstyled} />
+      )}
     </div>
   );
 }
@@ -279,50 +888,230 @@ function ToastItem({ toast, onDismiss, config }: ToastItemProps) {
  * }
  * ```
  */
-export function ToastContainer({ position, className }: ToastContainerProps) {
-  const { toasts, config, api } = useToastContext();
+export function ToastContainer({
+  position,
+  toasterId,
+  max,
+  gap: gapProp,
+  offset: offsetProp,
+  reverseOrder = false,
+  className,
+  renderToast,
+}: ToastContainerProps) {
+  const {
+    toasts,
+    config,
+    api,
+    pauseTimer,
+    resumeTimer,
+    pauseAllTimers,
+    resumeAllTimers,
+    registerToastElement,
+    restoreFocus,
+    store,
+  } = useToastContext();
+  const [expanded, setExpanded] = useState(false);
+  const [heights, setHeights] = useState<Record<string, number>>({});
+
+  const regionRef = useRef<HTMLDivElement>(null);
+  const focusInsideRef = useRef(false);
+  const colorScheme = useColorScheme(config.theme);
+
+  const handleHeightChange = useCallback((id: string, height: number) => {
+    setHeights((prev) => (prev[id] === height ? prev : { ...prev, [id]: height }));
+  }, []);
+
+  const gap = gapProp ?? config.gap;
+  const offset = offsetProp ?? config.offset;
 
   // Filtrar toasts por posición
-  const positionToasts = toasts.filter((toast) => (position ? toast.position === position : true));
+  const allPositionToasts = toasts.filter(
+    (toast) => toast.toasterId === toasterId && (position ? toast.position === position : true),
+  );
+  const empty = allPositionToasts.length === 0;
+
+  // Con `max` solo se muestran los más recientes; los que salen siguen hasta terminar su animación
+  let shown = 0;
+  const visibleToasts =
+    max === undefined ? allPositionToasts : allPositionToasts.filter((toast) => toast.removing || shown++ < max);
+  const positionToasts = reverseOrder && config.layout === "list" ? [...visibleToasts].reverse() : visibleToasts;
+
+  // Los toasts ocultos por `max` no deben expirar sin haberse visto: su timer queda en pausa
+  const hiddenKey = allPositionToasts
+    .filter((toast) => !visibleToasts.includes(toast))
+    .map((toast) => toast.id)
+    .join(" ");
+
+  useEffect(() => {
+    const hiddenIds = hiddenKey ? hiddenKey.split(" ") : [];
+    hiddenIds.forEach((id) => pauseTimer(id, "overflow"));
+    return () => hiddenIds.forEach((id) => resumeTimer(id, "overflow"));
+  }, [hiddenKey, pauseTimer, resumeTimer]);
+
+  // Si la región desaparece con el foco dentro no se recibe blur: reanudar los timers igualmente
+  useEffect(() => {
+    const releaseFocusPause = () => {
+      if (!focusInsideRef.current) return;
+      focusInsideRef.current = false;
+      resumeAllTimers("focus");
+    };
+
+    if (empty) releaseFocusPause();
+    return releaseFocusPause;
+  }, [empty, resumeAllTimers]);
+
+  // Keyframes compartidos (el icono de carga gira), en el documento o shadow root del container
+  useIsomorphicLayoutEffect(() => {
+    if (!config.unstyled && regionRef.current) injectToastStyles(regionRef.current.getRootNode());
+  }, [config.unstyled, empty]);
 
-  if (positionToasts.length === 0) {
+  if (empty) {
     return null;
   }
 
   // Usar la primera posición si no se especifica
   const containerPosition = position || positionToasts[0]?.position || "top-right";
-  const positionStyles = getPositionStyles(containerPosition, config.offset);
+  const positionStyles = getPositionStyles(containerPosition, offset);
+  const stacked = config.layout === "stack";
 
-  const containerStyle: React.CSSProperties = {
-    ...TOAST_STYLES.container,
-    ...positionStyles,
-    gap: `${config.gap}px`,
+  // Sin estilos el container solo emite las variables del tema, que no pintan nada por sí solas
+  const themeVariables = getThemeVariables(resolveToastTheme(colorScheme, config.themes[colorScheme]));
+  const containerStyle: React.CSSProperties = config.unstyled
+    ? themeVariables
+    : {
+        ...TOAST_STYLES.container,
+        ...positionStyles,
+        ...themeVariables,
+        gap: `${gap}px`,
+      };
+
+  const renderItem = (toast: Toast) => (
+    <ToastItem
+      key={toast.id}
+      toast={toast}
+      onDismiss={api.dismiss}
+      onPause={pauseTimer}
+      onResume={resumeTimer}
+      config={config}
+      render={renderToast}
+      onRegister={registerToastElement}
+      onRemove={store.remove}
+      onHeightChange={stacked ? handleHeightChange : undefined}
+    />
+  );
+
+  // Navegación con flechas entre toasts y Escape para cerrar el enfocado
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const current = (event.target as HTMLElement).closest<HTMLElement>("[data-toast-id]");
+    if (!current) return;
+
+    const activeIds = new Set(positionToasts.filter((t) => !t.removing).map((t) => t.id));
+    const items = Array.from(event.currentTarget.querySelectorAll<HTMLElement>("[data-toast-id]")).filter((item) =>
+      activeIds.has(item.dataset.toastId!),
+    );
+    const index = items.indexOf(current);
+
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      items[index + (event.key === "ArrowDown" ? 1 : -1)]?.focus();
+      return;
+    }
+
+    if (event.key === "Escape") {
+      const toast = positionToasts.find((t) => t.id === current.dataset.toastId);
+      if (!toast?.dismissible) return;
+
+      event.preventDefault();
+      const next = items[index + 1] ?? items[index - 1];
+      api.dismiss(toast.id, "user");
+
+      if (next) {
+        next.focus();
+      } else {
+        restoreFocus();
+      }
+    }
   };
 
-  return (
-    <>
-      {/* Estilos CSS para animaciones */}
-      <style>
-        {`
-          @keyframes spin {
-            from { transform: rotate(0deg); }
-            to { transform: rotate(360deg); }
+  // Layout "stack": toasts superpuestos que se expanden con hover o con el foco dentro
+  const renderStack = () => {
+    const itemHeights = positionToasts.map((toast) => heights[toast.id] ?? 0);
+    const expandedHeight = itemHeights.reduce((sum, height) => sum + height, 0) + gap * (positionToasts.length - 1);
+    const collapsedHeight = itemHeights[0] + STACK_PEEK * Math.min(positionToasts.length - 1, STACK_VISIBLE - 1);
+
+    let offsetBefore = 0;
+
+    return (
+      <div
+        style={{
+          position: "relative",
+          width: `${STACK_WIDTH}px`,
+          maxWidth: `calc(100vw - ${2 * (offset.x ?? 16)}px)`,
+          height: `${expanded ? expandedHeight : collapsedHeight}px`,
+          pointerEvents: "auto",
+          transition: "height 0.3s ease",
+        }}
+        data-expanded={expanded}
+        onMouseEnter={() => setExpanded(true)}
+        onMouseLeave={() => setExpanded(false)}
+        onFocus={() => setExpanded(true)}
+        onBlur={(event) => {
+          if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+            setExpanded(false);
           }
-        `}
-      </style>
+        }}
+      >
+        {positionToasts.map((toast, index) => {
+          const style = getStackItemStyle(index, positionToasts.length, offsetBefore, containerPosition, expanded);
+          offsetBefore += itemHeights[index] + gap;
 
-      <div style={containerStyle} className={className} aria-label={`Notificaciones ${containerPosition}`}>
-        {positionToasts.map((toast) => (
-          <ToastItem key={toast.id} toast={toast} onDismiss={api.dismiss} config={config} />
-        ))}
+          return (
+            <div key={toast.id} style={style}>
+              {renderItem(toast)}
+            </div>
+          );
+        })}
       </div>
-    </>
+    );
+  };
+
+  return (
+    <div
+      ref={regionRef}
+      style={containerStyle}
+      className={className}
+      role="region"
+      aria-label={`Notificaciones ${containerPosition}`}
+      data-position={containerPosition}
+      data-toaster-id={toasterId}
+      data-layout={config.layout}
+      data-theme={colorScheme}
+      onKeyDown={handleKeyDown}
+      onFocus={() => {
+        focusInsideRef.current = true;
+        pauseAllTimers("focus");
+      }}
+      onBlur={(event) => {
+        // Reanudar los timers solo cuando el foco sale de la región
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+          focusInsideRef.current = false;
+          resumeAllTimers("focus");
+        }
+      }}
+    >
+      {stacked ? renderStack() : positionToasts.map(renderItem)}
+    </div>
   );
 }
 
 /**
  * Componente que renderiza automáticamente todos los containers necesarios
- * Detecta las posiciones usadas y crea containers para cada una
+ * Detecta las posiciones usadas y crea containers para cada una.
+ *
+ * Los containers se pintan en un portal (por defecto en `document.body`), fuera de
+ * ancestros con `transform` u `overflow: hidden` que romperían `position: fixed`.
+ * En el servidor y durante la hidratación se pintan en su sitio, como en el HTML
+ * del servidor, y pasan al portal justo después.
  *
  * @example
  * ```tsx
@@ -338,17 +1127,148 @@ export function ToastContainer({ position, className }: ToastContainerProps) {
  * }
  * ```
  */
-export function Toaster({ className }: { className?: string }) {
-  const { toasts } = useToastContext();
+export function Toaster({ className, renderToast, container, ...containerProps }: ToasterProps) {
+  // Obtener todas las posiciones únicas de los toasts de este Toaster
+  const { positions } = useToaster({ toasterId: containerProps.toasterId });
+  const hydrated = useIsHydrated();
 
-  // Obtener todas las posiciones únicas
-  const positions = Array.from(new Set(toasts.map((toast) => toast.position))) as ToastPosition[];
+  // Las funciones se resuelven tras montar, cuando los refs del destino ya existen
+  const [resolvedTarget, setResolvedTarget] = useState<Element | DocumentFragment | null>(null);
+  useIsomorphicLayoutEffect(() => {
+    setResolvedTarget(typeof container === "function" ? container() : null);
+  }, [container]);
 
-  return (
+  const containers = (
     <>
       {positions.map((position) => (
-        <ToastContainer key={position} position={position} className={className} />
+        <ToastContainer
+          key={position}
+          position={position}
+          className={className}
+          renderToast={renderToast}
+          {...containerProps}
+        />
       ))}
     </>
   );
+
+  if (container === false || !hydrated) {
+    return containers;
+  }
+
+  const target = typeof container === "function" ? resolvedTarget : (container ?? document.body);
+  return target ? createPortal(containers, target) : null;
+}
+
+/**
+ * Centro de notificaciones con los toasts cerrados (requiere `history` en la configuración).
+ * Permite marcar entradas como leídas y eliminarlas. Para un markup totalmente propio,
+ * usa `useToastHistory`.
+ *
+ * @example
+ * ```tsx
+ * <ToastProvider config={{ history: { limit: 100, storageKey: 'app-toasts' } }}>
+ *   <App />
+ *   <Toaster />
+ *   <ToastInbox filter={{ type: ['error', 'warning'] }} />
+ * </ToastProvider>
+ * ```
+ */
+export function ToastInbox({
+  filter,
+  title = "Notificaciones",
+  emptyMessage = "No hay notificaciones",
+  className,
+  renderEntry,
+}: ToastInboxProps) {
+  const { config } = useToastContext();
+  const { entries, unreadCount, markRead, clear } = useToastHistory(filter);
+  const unstyled = config.unstyled;
+  const headingId = useId();
+
+  // Mismo modo que los containers; los enlaces siguen los tokens de `themes`
+  const colorScheme = useColorScheme(config.theme);
+  const accent = resolveToastTheme(colorScheme, config.themes[colorScheme]).outlined.info.color;
+  const styles = unstyled ? undefined : getInboxStyles(colorScheme, accent);
+
+  return (
+    <section
+      aria-labelledby={headingId}
+      className={className}
+      data-toast-inbox=""
+      data-theme={colorScheme}
+      style={styles?.panel}
+    >
+      <div data-toast-inbox-header="" style={styles?.header}>
+        <h2 id={headingId} style={styles?.heading}>
+          {title}
+        </h2>
+        {unreadCount > 0 && (
+          <span data-toast-inbox-unread="" aria-label={`${unreadCount} sin leer`}>
+            {unreadCount}
+          </span>
+        )}
+        <button type="button" style={styles?.button} disabled={unreadCount === 0} onClick={() => markRead()}>
+          Marcar todo como leído
+        </button>
+        <button type="button" style={styles?.button} disabled={entries.length === 0} onClick={() => clear()}>
+          Vaciar
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p style={styles?.empty}>{emptyMessage}</p>
+      ) : (
+        <ul style={styles?.list}>
+          {entries.map((entry) => {
+            const helpers = { markRead: () => markRead(entry.id), remove: () => clear(entry.id) };
+
+            return (
+              <li
+                key={entry.id}
+                data-toast-inbox-entry=""
+                data-type={entry.type}
+                data-read={entry.read}
+                style={styles && { ...styles.entry, fontWeight: entry.read ? undefined : 600 }}
+              >
+                {renderEntry ? (
+                  renderEntry(entry, helpers)
+                ) : (
+                  <>
+                    <span aria-hidden="true">{DEFAULT_ICONS[entry.type]}</span>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      {entry.title && <div>{entry.title}</div>}
+                      <div>{entry.message}</div>
+                      {entry.description && (
+                        <div style={unstyled ? undefined : TOAST_STYLES.description}>{entry.description}</div>
+                      )}
+                      <time
+                        dateTime={new Date(entry.closedAt).toISOString()}
+                        style={{ fontSize: "12px", opacity: 0.6 }}
+                      >
+                        {new Date(entry.closedAt).toLocaleTimeString()}
+                      </time>
+                    </div>
+                    {!entry.read && (
+                      <button type="button" style={styles?.button} onClick={helpers.markRead}>
+                        Marcar como leída
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      style={styles?.button}
+                      aria-label="Eliminar notificación"
+                      onClick={helpers.remove}
+                    >
+                      ✕
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
 }
@@ -1,19 +1,32 @@
-import React, { createContext, useCallback, useContext, useRef, useState, ReactNode } from "react";
-import { Toast, ToastAPI, ToastConfig, ToastOptions, ToastType } from "./types";
+"use client";
 
-/**
- * Configuración por defecto del sistema de toasts
- */
-const DEFAULT_CONFIG: Required<ToastConfig> = {
-  defaultDuration: 4000,
-  defaultPosition: "top-right",
-  defaultVariant: "filled",
-  maxToasts: 5,
-  pauseOnHover: true,
-  pauseOnFocusLoss: true,
-  gap: 8,
-  offset: { x: 16, y: 16 },
-};
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useId,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  ReactNode,
+} from "react";
+import { matchesHotkey, VISUALLY_HIDDEN_STYLE } from "./a11y";
+import { consumeFlashToasts, resolveFlashOptions } from "./flash";
+import { createInitialSnapshot, createToastAPI, createToastStore, getToastStore, resolveToastStore } from "./store";
+import {
+  Toast,
+  ToastAPI,
+  ToastConfig,
+  ToastEvent,
+  ToastHistoryEntry,
+  ToastInitialToast,
+  ToastPauseReason,
+  ToastStore,
+  ToastTimerState,
+} from "./types";
 
 /**
  * Contexto del sistema de toasts
@@ -21,14 +34,46 @@ const DEFAULT_CONFIG: Required<ToastConfig> = {
 interface ToastContextValue {
   /** Lista actual de toasts */
   toasts: Toast[];
+  /** Toasts cerrados guardados en el historial */
+  history: ToastHistoryEntry[];
   /** Configuración actual */
   config: Required<ToastConfig>;
   /** API para manejar toasts */
   api: ToastAPI;
+  /** Store al que está suscrito el provider */
+  store: ToastStore;
+  /** Nombre del provider (opcional) */
+  toasterId?: string;
+  /** Contexto del provider antecesor, si lo hay */
+  parent: ToastContextValue | null;
+  /** Pausa el timer de auto-dismiss de un toast */
+  pauseTimer: (id: string, reason?: ToastPauseReason) => void;
+  /** Reanuda el timer de un toast con el tiempo restante */
+  resumeTimer: (id: string, reason?: ToastPauseReason) => void;
+  /** Lee el estado actual del timer de un toast */
+  getTimerState: (id: string) => ToastTimerState;
+  /** Pausa todos los timers por un motivo global */
+  pauseAllTimers: (reason: ToastPauseReason) => void;
+  /** Reanuda todos los timers pausados por un motivo global */
+  resumeAllTimers: (reason: ToastPauseReason) => void;
+  /** Registra (o elimina con null) el elemento raíz de un toast */
+  registerToastElement: (id: string, element: HTMLElement | null) => void;
+  /** Devuelve el foco al elemento que lo tenía antes de usar el atajo de teclado */
+  restoreFocus: () => void;
 }
 
 const ToastContext = createContext<ToastContextValue | null>(null);
 
+/**
+ * `useLayoutEffect` en el navegador y `useEffect` en el servidor, donde el primero avisa de que no se ejecuta
+ */
+export const useIsomorphicLayoutEffect = typeof window !== "undefined" ? useLayoutEffect : useEffect;
+
+/**
+ * Número de providers montados por store, para vaciarlo cuando se desmonta el último
+ */
+const providerCount = new WeakMap<ToastStore, number>();
+
 /**
  * Hook para acceder al contexto de toasts
  * @throws Error si se usa fuera del ToastProvider
@@ -42,10 +87,44 @@ export function useToastContext(): ToastContextValue {
 }
 
 /**
- * Genera un ID único para un toast
+ * Toasts iniciales ya añadidos a cada store, para no repetirlos al remontar el provider.
+ * Se comparan por referencia: los IDs generados con `useId` cambian entre montajes.
+ */
+const seededToasts = new WeakMap<ToastStore, WeakSet<ToastInitialToast>>();
+
+/**
+ * IDs de los toasts iniciales ya mostrados en esta página. Sobreviven al provider y a su store:
+ * un provider con store propio crea uno nuevo en cada montaje y un `initialToasts` en línea
+ * son objetos nuevos en cada render.
+ */
+const seededToastIds = new Set<string>();
+
+/**
+ * Añade al store los toasts iniciales que todavía no se han mostrado
  */
-function generateToastId(): string {
-  return `toast-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+function seedInitialToasts(store: ToastStore, initialToasts: ToastInitialToast[], ids: string[]) {
+  const seeded = seededToasts.get(store) ?? new WeakSet<ToastInitialToast>();
+  seededToasts.set(store, seeded);
+
+  initialToasts.forEach((initialToast, index) => {
+    if (seeded.has(initialToast) || seededToastIds.has(ids[index])) return;
+    seeded.add(initialToast);
+    seededToastIds.add(ids[index]);
+
+    const { message, ...options } = initialToast;
+    store.add(message, { ...options, id: ids[index] });
+  });
+}
+
+/**
+ * Busca, desde el provider más cercano hacia arriba, el provider con el `toasterId` indicado
+ */
+export function findToastContext(context: ToastContextValue, toasterId: string): ToastContextValue | null {
+  let current: ToastContextValue | null = context;
+  while (current && current.toasterId !== toasterId) {
+    current = current.parent;
+  }
+  return current;
 }
 
 /**
@@ -54,13 +133,31 @@ function generateToastId(): string {
 export interface ToastProviderProps {
   /** Configuración global opcional */
   config?: Partial<ToastConfig>;
+  /**
+   * Store al que se suscribe (instancia o nombre). Por defecto, el store global de `toast()`;
+   * un provider anidado, o uno raíz si el global ya tiene otro provider, tiene uno propio.
+   */
+  store?: ToastStore | string;
+  /** Recibe los eventos de apertura y cierre de todos los toasts (p. ej. para analítica) */
+  onEvent?: (event: ToastEvent) => void;
+  /** Nombre del provider, para que `useToast({ toasterId })` lo encuentre desde providers anidados */
+  toasterId?: string;
+  /** Si delegar en el provider padre en lugar de crear un sistema de toasts propio */
+  forwardToParent?: boolean;
+  /**
+   * Toasts que se muestran desde el primer render, también en el servidor. Cada `id` se muestra
+   * una sola vez por carga de la página, aunque el provider se vuelva a montar.
+   */
+  initialToasts?: ToastInitialToast[];
   /** Elementos hijos */
   children: ReactNode;
 }
 
 /**
  * Provider que maneja el estado global de toasts
- * Debe envolver la aplicación para usar el sistema de toasts
+ * Debe envolver la aplicación para usar el sistema de toasts.
+ * Se puede anidar: cada provider tiene su propio sistema salvo que use `forwardToParent`,
+ * y `useToast({ toasterId })` alcanza a un provider antecesor por su `toasterId`.
  *
  * @example
  * ```tsx
@@ -75,172 +172,220 @@ export interface ToastProviderProps {
  * }
  * ```
  */
-export function ToastProvider({ config: userConfig = {}, children }: ToastProviderProps) {
-  const [toasts, setToasts] = useState<Toast[]>([]);
-  const timersRef = useRef<Map<string, NodeJS.Timeout>>(new Map());
-  const config = { ...DEFAULT_CONFIG, ...userConfig };
+export function ToastProvider({ forwardToParent = false, ...props }: ToastProviderProps) {
+  const parent = useContext(ToastContext);
 
-  /**
-   * Limpia el timer de un toast específico
-   */
-  const clearTimer = useCallback((id: string) => {
-    const timer = timersRef.current.get(id);
-    if (timer) {
-      clearTimeout(timer);
-      timersRef.current.delete(id);
-    }
-  }, []);
+  // Un provider que delega es transparente: sus hijos usan directamente el del padre
+  if (forwardToParent && parent) {
+    return <>{props.children}</>;
+  }
 
-  /**
-   * Configura el timer de auto-dismiss para un toast
-   */
-  const setTimer = useCallback(
-    (id: string, duration: number) => {
-      if (duration <= 0) return;
-
-      clearTimer(id);
-      const timer = setTimeout(() => {
-        dismiss(id);
-      }, duration);
-      timersRef.current.set(id, timer);
-    },
-    [clearTimer],
+  return <ToastProviderRoot {...props} parent={parent} />;
+}
+
+/**
+ * Provider con sistema de toasts propio, enlazado a su provider antecesor
+ */
+function ToastProviderRoot({
+  config: userConfig = {},
+  store: storeProp,
+  onEvent,
+  toasterId,
+  initialToasts,
+  parent,
+  children,
+}: Omit<ToastProviderProps, "forwardToParent"> & { parent: ToastContextValue | null }) {
+  // Sin `store`, el provider raíz usa el store global de `toast()` y uno anidado tiene el suyo.
+  // Si ya hay otro provider montado en el global, este también tiene uno propio, para que
+  // ninguno pise la configuración ni los toasts del otro.
+  const [ownStore] = useState(() =>
+    storeProp === undefined && (parent || providerCount.get(getToastStore())) ? createToastStore(userConfig) : null,
   );
+  const store = ownStore ?? resolveToastStore(storeProp);
+  if (ownStore) ownStore.configure(userConfig);
 
-  /**
-   * Crea un nuevo toast
-   */
-  const createToast = useCallback(
-    (message: ReactNode, options: ToastOptions = {}): string => {
-      const id = options.id || generateToastId();
-      const duration = options.duration ?? config.defaultDuration;
-
-      const toast: Toast = {
-        id,
-        message,
-        type: options.type || "info",
-        duration,
-        dismissible: options.dismissible ?? true,
-        position: options.position || config.defaultPosition,
-        variant: options.variant || config.defaultVariant,
-        icon: options.icon,
-        action: options.action,
-        data: options.data,
-        onClose: options.onClose,
-        createdAt: Date.now(),
-        visible: true,
-        removing: false,
-      };
-
-      setToasts((prev) => {
-        // Filtrar toasts existentes por posición y aplicar límite
-        const samePosition = prev.filter((t) => t.position === toast.position);
-        const otherPositions = prev.filter((t) => t.position !== toast.position);
-
-        let newPositionToasts = [toast, ...samePosition];
-
-        // Aplicar límite de toasts por posición
-        if (newPositionToasts.length > config.maxToasts) {
-          const toRemove = newPositionToasts.slice(config.maxToasts);
-          toRemove.forEach((t) => clearTimer(t.id));
-          newPositionToasts = newPositionToasts.slice(0, config.maxToasts);
-        }
-
-        return [...newPositionToasts, ...otherPositions];
+  // La configuración de un store compartido no se cambia durante el render: se aplica tras
+  // montar y, mientras tanto, este provider renderiza con la suya encima de la del store
+  const config: Required<ToastConfig> = ownStore ? store.getConfig() : { ...store.getConfig(), ...userConfig };
+  useIsomorphicLayoutEffect(() => {
+    if (!ownStore) store.configure(userConfig);
+  });
+
+  // Toasts iniciales con IDs deterministas, iguales en el servidor y en el cliente
+  const initialIdPrefix = useId();
+  const [initial] = useState(() => {
+    const list = initialToasts ?? [];
+    const ids = list.map((toast, index) => toast.id ?? `toast${initialIdPrefix}${index}`);
+    const snapshot = createInitialSnapshot(
+      config,
+      list.map((toast, index) => ({ ...toast, id: ids[index] })),
+    );
+    return { list, ids, snapshot };
+  });
+  const serverSnapshot = initial.snapshot;
+
+  // Se añaden al store tras montar y ya configurado; en el servidor no se toca, porque puede
+  // ser compartido entre peticiones
+  useIsomorphicLayoutEffect(() => {
+    seedInitialToasts(store, initial.list, initial.ids);
+  }, [store, initial]);
+
+  // El servidor y la hidratación usan solo los toasts iniciales; los lanzados antes de
+  // hidratar (p. ej. con `toast()` al cargar el módulo) aparecen justo después
+  const { toasts, queued, announcements, history } = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    () => serverSnapshot,
+  );
+  const toastApi = useMemo(() => createToastAPI(store), [store]);
+
+  // Vaciar el store cuando se desmonta el último provider ligado a él
+  useEffect(() => {
+    providerCount.set(store, (providerCount.get(store) ?? 0) + 1);
+
+    return () => {
+      providerCount.set(store, (providerCount.get(store) ?? 1) - 1);
+      // Se espera a una microtarea para no vaciarlo en un remontaje inmediato (StrictMode)
+      queueMicrotask(() => {
+        if (!providerCount.get(store)) store.reset();
       });
+    };
+  }, [store]);
 
-      // Configurar auto-dismiss
-      if (duration > 0) {
-        setTimer(id, duration);
+  // Reenviar los eventos del store; la ref evita resuscribirse cuando cambia el callback
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => store.subscribeEvents((event) => onEventRef.current?.(event)), [store]);
+
+  // Cargar el historial persistido tras montar, para que el primer render coincida con el del servidor
+  const historyStorageKey = typeof config.history === "object" ? config.history.storageKey : undefined;
+  useEffect(() => {
+    if (historyStorageKey) store.restoreHistory();
+  }, [historyStorageKey, store]);
+
+  // Mostrar los toasts flash de la navegación anterior; se consumen, así que solo se muestran una vez
+  const flashOptions = resolveFlashOptions(config.flash);
+  const flashStorageKey = flashOptions?.storageKey;
+  const flashParam = flashOptions?.param;
+  useEffect(() => {
+    if (flashStorageKey === undefined || flashParam === undefined) return;
+
+    consumeFlashToasts({ storageKey: flashStorageKey, param: flashParam }).forEach(({ message, ...options }) =>
+      store.add(message, options),
+    );
+  }, [flashStorageKey, flashParam, store]);
+
+  // Pausar los timers cuando la ventana pierde el foco o la pestaña se oculta
+  useEffect(() => {
+    if (!config.pauseOnFocusLoss || typeof window === "undefined") return;
+
+    const handleBlur = () => store.pauseAllTimers("focus-loss");
+    const handleFocus = () => store.resumeAllTimers("focus-loss");
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        store.pauseAllTimers("hidden");
+      } else {
+        store.resumeAllTimers("hidden");
       }
+    };
 
-      return id;
-    },
-    [config, clearTimer, setTimer],
-  );
+    window.addEventListener("blur", handleBlur);
+    window.addEventListener("focus", handleFocus);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
 
-  /**
-   * Cierra un toast específico
-   */
-  const dismiss = useCallback(
-    (id: string) => {
-      clearTimer(id);
-
-      setToasts((prev) => prev.map((toast) => (toast.id === id ? { ...toast, removing: true } : toast)));
-
-      // Remover del estado después de la animación
-      setTimeout(() => {
-        setToasts((prev) => {
-          const toast = prev.find((t) => t.id === id);
-          if (toast?.onClose) {
-            toast.onClose();
-          }
-          return prev.filter((t) => t.id !== id);
-        });
-      }, 300); // Duración de la animación de salida
-    },
-    [clearTimer],
-  );
+    return () => {
+      window.removeEventListener("blur", handleBlur);
+      window.removeEventListener("focus", handleFocus);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      store.resumeAllTimers("focus-loss");
+      store.resumeAllTimers("hidden");
+    };
+  }, [config.pauseOnFocusLoss, store]);
+
+  // Elementos de los toasts montados y elemento enfocado antes de saltar a los toasts
+  const elementsRef = useRef<Map<string, HTMLElement>>(new Map());
+  const lastFocusedRef = useRef<HTMLElement | null>(null);
 
   /**
-   * Cierra todos los toasts
+   * Registra el elemento raíz de un toast para poder enfocarlo
    */
-  const dismissAll = useCallback(() => {
-    timersRef.current.forEach((timer) => clearTimeout(timer));
-    timersRef.current.clear();
-
-    setToasts((prev) => {
-      prev.forEach((toast) => {
-        if (toast.onClose) {
-          toast.onClose();
-        }
-      });
-      return [];
-    });
+  const registerToastElement = useCallback((id: string, element: HTMLElement | null) => {
+    if (element) {
+      elementsRef.current.set(id, element);
+    } else {
+      elementsRef.current.delete(id);
+    }
   }, []);
 
   /**
-   * Actualiza un toast existente
+   * Devuelve el foco al elemento enfocado antes de usar el atajo de teclado
    */
-  const update = useCallback(
-    (id: string, message: ReactNode, options: Partial<ToastOptions> = {}) => {
-      setToasts((prev) =>
-        prev.map((toast) =>
-          toast.id === id
-            ? {
-                ...toast,
-                message,
-                ...options,
-                // Si se cambia la duración, reconfigurar timer
-                duration: options.duration ?? toast.duration,
-              }
-            : toast,
-        ),
-      );
-
-      // Reconfigurar timer si es necesario
-      if (options.duration !== undefined) {
-        setTimer(id, options.duration);
+  const restoreFocus = useCallback(() => {
+    const element = lastFocusedRef.current;
+    lastFocusedRef.current = null;
+    element?.focus();
+  }, []);
+
+  // Atajo de teclado para saltar al toast más reciente
+  useEffect(() => {
+    const hotkey = config.hotkey;
+    if (!hotkey || typeof document === "undefined") return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!matchesHotkey(event, hotkey)) return;
+
+      const latest = store.getSnapshot().toasts.find((t) => !t.removing && elementsRef.current.has(t.id));
+      if (!latest) return;
+
+      event.preventDefault();
+
+      const active = document.activeElement as HTMLElement | null;
+      const insideToasts = Array.from(elementsRef.current.values()).some((element) => element.contains(active));
+      if (!insideToasts) {
+        lastFocusedRef.current = active;
       }
-    },
-    [setTimer],
-  );
+
+      elementsRef.current.get(latest.id)!.focus();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [config.hotkey, store]);
 
   /**
    * API completa del sistema de toasts
    */
-  const api: ToastAPI = {
-    success: (message, options) => createToast(message, { ...options, type: "success" }),
-    error: (message, options) => createToast(message, { ...options, type: "error" }),
-    warning: (message, options) => createToast(message, { ...options, type: "warning" }),
-    info: (message, options) => createToast(message, { ...options, type: "info" }),
-    loading: (message, options) => createToast(message, { ...options, type: "loading" }),
-    custom: createToast,
-    dismiss,
-    dismissAll,
-    update,
-    toasts,
-  };
-
-  return <ToastContext.Provider value={{ toasts, config, api }}>{children}</ToastContext.Provider>;
+  const api: ToastAPI = { ...toastApi, toasts, queued };
+
+  return (
+    <ToastContext.Provider
+      value={{
+        toasts,
+        history,
+        config,
+        api,
+        store,
+        toasterId,
+        parent,
+        pauseTimer: store.pauseTimer,
+        resumeTimer: store.resumeTimer,
+        getTimerState: store.getTimerState,
+        pauseAllTimers: store.pauseAllTimers,
+        resumeAllTimers: store.resumeAllTimers,
+        registerToastElement,
+        restoreFocus,
+      }}
+    >
+      {children}
+
+      {/* Regiones vivas persistentes: anuncian los toasts aunque ningún container esté montado */}
+      <div style={VISUALLY_HIDDEN_STYLE} aria-live="polite" aria-atomic="true" data-toast-announcer="polite">
+        {announcements.polite.text && <span key={announcements.polite.key}>{announcements.polite.text}</span>}
+      </div>
+      <div style={VISUALLY_HIDDEN_STYLE} aria-live="assertive" aria-atomic="true" data-toast-announcer="assertive">
+        {announcements.assertive.text && <span key={announcements.assertive.key}>{announcements.assertive.text}</span>}
+      </div>
+    </ToastContext.Provider>
+  );
 }
@@ -0,0 +1,158 @@
+import { ToastConfig, ToastFlashConfig, ToastFlashMessage, ToastFlashOptions, ToastInitialToast } from "./types";
+
+/**
+ * Clave de `sessionStorage` por defecto
+ */
+const DEFAULT_FLASH_STORAGE_KEY = "complete-react-toast:flash";
+
+/**
+ * Parámetro de la URL por defecto de `withFlashToast` y de `param: true`
+ */
+const DEFAULT_FLASH_PARAM = "toast";
+
+/**
+ * Tiempo por defecto durante el que un toast flash sigue pendiente
+ */
+const DEFAULT_FLASH_TTL = 30000;
+
+/**
+ * Tipos admitidos: un toast de carga no tiene sentido tras una navegación
+ */
+const FLASH_TYPES = ["success", "error", "warning", "info"];
+
+/**
+ * Opción `flash` normalizada: `param` es el nombre del parámetro o false si se ignora la URL
+ */
+type ResolvedFlashConfig = Required<ToastFlashConfig> & { param: string | false };
+
+/**
+ * Normaliza la opción `flash` de la configuración (null si está desactivado)
+ */
+export function resolveFlashOptions(flash: ToastConfig["flash"]): ResolvedFlashConfig | null {
+  if (!flash) return null;
+
+  const options = flash === true ? {} : flash;
+  return {
+    storageKey: options.storageKey ?? DEFAULT_FLASH_STORAGE_KEY,
+    // Leer la URL es opcional: cualquiera puede construir un enlace con el parámetro
+    param: options.param === true ? DEFAULT_FLASH_PARAM : (options.param ?? false),
+  };
+}
+
+/**
+ * Crea el mensaje serializable de un toast flash
+ */
+function createFlashMessage(
+  message: string,
+  { ttl = DEFAULT_FLASH_TTL, storageKey, param, ...options }: ToastFlashOptions,
+): ToastFlashMessage {
+  return { ...options, message, expiresAt: Date.now() + ttl };
+}
+
+/**
+ * Lee una lista de mensajes serializados. Descarta lo que no es válido: la URL la puede
+ * escribir cualquiera.
+ */
+function parseFlashMessages(raw: string | null): ToastFlashMessage[] {
+  if (!raw) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+
+    return parsed
+      .filter((entry) => typeof entry?.message === "string" && typeof entry.expiresAt === "number")
+      .map(({ message, type, title, description, duration, data, id, expiresAt }) => ({
+        message,
+        type: FLASH_TYPES.includes(type) ? type : undefined,
+        title: typeof title === "string" ? title : undefined,
+        description: typeof description === "string" ? description : undefined,
+        duration: typeof duration === "number" ? duration : undefined,
+        data: data && typeof data === "object" ? data : undefined,
+        id: typeof id === "string" ? id : undefined,
+        expiresAt,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Guarda un toast en `sessionStorage` para mostrarlo en la siguiente página que monte un
+ * `ToastProvider` con `flash` activado. Útil antes de una navegación o un redirect del cliente.
+ *
+ * @example
+ * ```tsx
+ * flashToast('Perfil guardado', { type: 'success' });
+ * window.location.assign('/perfil');
+ * ```
+ */
+export function flashToast(message: string, options: ToastFlashOptions = {}) {
+  if (typeof window === "undefined") return;
+
+  const storageKey = options.storageKey ?? DEFAULT_FLASH_STORAGE_KEY;
+
+  try {
+    const pending = parseFlashMessages(window.sessionStorage.getItem(storageKey));
+    const next = [...pending, createFlashMessage(message, options)];
+    window.sessionStorage.setItem(storageKey, JSON.stringify(next));
+  } catch {
+    // Almacenamiento lleno o bloqueado: el toast se pierde
+  }
+}
+
+/**
+ * Añade un toast flash a una URL como parámetro. Funciona también en el servidor, p. ej.
+ * para construir el destino de un redirect.
+ *
+ * @example
+ * ```ts
+ * redirect(withFlashToast('/pedidos?page=2', 'Pedido creado', { type: 'success' }));
+ * // → /pedidos?page=2&toast=...
+ * ```
+ */
+export function withFlashToast(url: string, message: string, options: ToastFlashOptions = {}): string {
+  const param = options.param ?? DEFAULT_FLASH_PARAM;
+
+  const hashIndex = url.indexOf("#");
+  const hash = hashIndex === -1 ? "" : url.slice(hashIndex);
+  const path = hashIndex === -1 ? url : url.slice(0, hashIndex);
+
+  const queryIndex = path.indexOf("?");
+  const base = queryIndex === -1 ? path : path.slice(0, queryIndex);
+  const params = new URLSearchParams(queryIndex === -1 ? "" : path.slice(queryIndex + 1));
+
+  const messages = [...parseFlashMessages(params.get(param)), createFlashMessage(message, options)];
+  params.set(param, JSON.stringify(messages));
+
+  return `${base}?${params}${hash}`;
+}
+
+/**
+ * Recoge los toasts flash pendientes y los elimina de `sessionStorage` y de la URL, para que
+ * se muestren una sola vez (tampoco al recargar). Los caducados se descartan.
+ */
+export function consumeFlashToasts({ storageKey, param }: ResolvedFlashConfig): ToastInitialToast[] {
+  if (typeof window === "undefined") return [];
+
+  const messages: ToastFlashMessage[] = [];
+
+  try {
+    messages.push(...parseFlashMessages(window.sessionStorage.getItem(storageKey)));
+    window.sessionStorage.removeItem(storageKey);
+  } catch {
+    // Almacenamiento bloqueado: solo queda la URL
+  }
+
+  if (param) {
+    const url = new URL(window.location.href);
+    if (url.searchParams.has(param)) {
+      messages.push(...parseFlashMessages(url.searchParams.get(param)));
+      url.searchParams.delete(param);
+      window.history.replaceState(window.history.state, "", url);
+    }
+  }
+
+  const now = Date.now();
+  return messages.filter((entry) => entry.expiresAt > now).map(({ expiresAt, ...toast }) => toast);
+}
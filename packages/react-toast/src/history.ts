@@ -0,0 +1,109 @@
+import {
+  Toast,
+  ToastCloseReason,
+  ToastConfig,
+  ToastHistoryEntry,
+  ToastHistoryFilter,
+  ToastHistoryOptions,
+} from "./types";
+
+/**
+ * Máximo de entradas por defecto
+ */
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * Motivos de cierre que implican que el usuario vio el toast
+ */
+const SEEN_REASONS: ToastCloseReason[] = ["user", "action"];
+
+/**
+ * Normaliza la opción `history` de la configuración (null si está desactivado)
+ */
+export function resolveHistoryOptions(history: ToastConfig["history"]): Required<ToastHistoryOptions> | null {
+  if (!history) return null;
+
+  const options = history === true ? {} : history;
+  return { limit: options.limit ?? DEFAULT_HISTORY_LIMIT, storageKey: options.storageKey ?? "" };
+}
+
+/**
+ * Crea la entrada de historial de un toast cerrado. Los toasts de carga no se guardan:
+ * son estados intermedios que se sustituyen por su resultado. Tampoco los descartados por
+ * `rateLimit`, que ya cuenta su toast de resumen.
+ */
+export function createHistoryEntry(toast: Toast, reason: ToastCloseReason): ToastHistoryEntry | null {
+  if (toast.type === "loading" || reason === "rateLimited") return null;
+
+  return {
+    id: toast.id,
+    type: toast.type,
+    message: toast.message,
+    title: toast.title,
+    description: toast.description,
+    data: toast.data,
+    count: toast.count,
+    createdAt: toast.createdAt,
+    closedAt: Date.now(),
+    reason,
+    read: SEEN_REASONS.includes(reason),
+  };
+}
+
+/**
+ * Comprueba si una entrada cumple un filtro
+ */
+export function matchesHistoryFilter(entry: ToastHistoryEntry, filter?: ToastHistoryFilter): boolean {
+  if (!filter) return true;
+  if (typeof filter === "function") return filter(entry);
+
+  if (filter.unread && entry.read) return false;
+  if (filter.type && !(Array.isArray(filter.type) ? filter.type : [filter.type]).includes(entry.type)) return false;
+  if (filter.data) {
+    return Object.entries(filter.data).every(([key, value]) => entry.data?.[key] === value);
+  }
+  return true;
+}
+
+/**
+ * Solo el texto sobrevive a la serialización: el JSX se descarta
+ */
+function toText(node: unknown): string | undefined {
+  return typeof node === "string" || typeof node === "number" ? String(node) : undefined;
+}
+
+/**
+ * Lee el historial persistido. Devuelve una lista vacía si no hay nada o no es válido.
+ */
+export function readPersistedHistory(storageKey: string): ToastHistoryEntry[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(storageKey) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persiste el historial. Las entradas cuyo mensaje no es texto no se guardan.
+ */
+export function writePersistedHistory(storageKey: string, history: ToastHistoryEntry[]) {
+  if (typeof window === "undefined") return;
+
+  const serializable = history
+    .filter((entry) => toText(entry.message) !== undefined)
+    .map((entry) => ({
+      ...entry,
+      message: toText(entry.message),
+      title: toText(entry.title),
+      description: toText(entry.description),
+    }));
+
+  try {
+    window.localStorage.setItem(storageKey, JSON.stringify(serializable));
+  } catch {
+    // Almacenamiento lleno o bloqueado: el historial sigue disponible en memoria
+  }
+}
@@ -1,22 +1,80 @@
+"use client";
+
 // Hooks principales
-export { useToast, useToastError, useToastWithDefaults } from "./useToast";
+export { useToast, useToaster, useToastError, useToastHistory, useToastTimer, useToastWithDefaults } from "./useToast";
 
 // Context y Provider
 export { ToastProvider, useToastContext } from "./context";
 
+// Store imperativo, utilizable fuera de React
+export { createToastFunction, createToastStore, getToastStore, toast } from "./store";
+
+// Toasts que sobreviven a una navegación
+export { flashToast, withFlashToast } from "./flash";
+
+// Animaciones incluidas, para componer animaciones propias
+export { TOAST_ANIMATIONS } from "./animations";
+
 // Componentes
-export { ToastContainer, Toaster } from "./components";
+export { ToastContainer, Toaster, ToastInbox } from "./components";
 
 // Tipos exportados
 export type {
   Toast,
+  ToastAction,
+  ToastActionVariant,
+  ToastAnimation,
+  ToastAnimationPreset,
+  ToastAnnouncement,
   ToastAPI,
+  ToastClassNames,
+  ToastCloseReason,
   ToastConfig,
+  ToastEvent,
+  ToastFlashConfig,
+  ToastFlashMessage,
+  ToastFlashOptions,
+  ToastHistoryAPI,
+  ToastHistoryEntry,
+  ToastHistoryFilter,
+  ToastHistoryOptions,
+  ToastInboxEntryHelpers,
+  ToastInboxProps,
+  ToastInitialToast,
   ToastOptions,
+  ToastAriaLive,
+  ToastAriaProps,
+  ToasterAPI,
+  ToastLayout,
+  ToasterProps,
+  ToastPauseReason,
+  ToastPortalContainer,
   ToastPosition,
+  ToastPriority,
+  ToastProgressHandle,
+  ToastProgressOptions,
+  ToastProgressValue,
+  ToastPromiseMessage,
+  ToastPromiseMessages,
+  ToastPromiseOptions,
+  ToastQueueStrategy,
+  ToastRateLimitOptions,
+  ToastReducedMotion,
+  ToastSwipeDirection,
+  ToastTheme,
+  ToastThemeMode,
+  ToastThemeTokens,
+  ToastTimerState,
   ToastType,
+  ToastUndoableOptions,
   ToastVariant,
   ToastProviderProps,
+  ToastRenderFunction,
+  ToastRenderHelpers,
+  ToastFunction,
+  ToastStore,
+  ToastStoreSnapshot,
   ToastContainerProps,
   ToastItemProps,
+  UseToastOptions,
 } from "./types";
@@ -0,0 +1,23 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+/**
+ * Evalúa una media query y sigue sus cambios. Con `enabled` a false no se suscribe
+ * y devuelve false. En el servidor y durante la hidratación también devuelve false,
+ * para que el primer render del cliente coincida con el HTML del servidor.
+ */
+export function useMediaQuery(query: string, enabled = true): boolean {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      if (!enabled || typeof window === "undefined" || !window.matchMedia) return () => {};
+
+      const mediaQuery = window.matchMedia(query);
+      mediaQuery.addEventListener?.("change", onChange);
+      return () => mediaQuery.removeEventListener?.("change", onChange);
+    },
+    [query, enabled],
+  );
+
+  const getSnapshot = () => enabled && typeof window !== "undefined" && !!window.matchMedia?.(query)?.matches;
+
+  return useSyncExternalStore(subscribe, getSnapshot, () => false);
+}
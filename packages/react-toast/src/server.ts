@@ -0,0 +1,6 @@
+// Utilidades seguras en el servidor (Server Components, route handlers, acciones). Este entry
+// no lleva `'use client'`, así que sus funciones se ejecutan en el servidor y no se convierten
+// en referencias de cliente.
+export { withFlashToast } from "./flash";
+
+export type { ToastFlashMessage, ToastFlashOptions } from "./types";
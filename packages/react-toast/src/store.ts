@@ -0,0 +1,1032 @@
+import { ReactNode } from "react";
+import { getToastAnnouncement, getToastPoliteness } from "./a11y";
+import { resolveToastAnimation } from "./animations";
+import { createHistoryEntry, readPersistedHistory, resolveHistoryOptions, writePersistedHistory } from "./history";
+import { createRateLimiter, resolveRateLimitOptions } from "./throttle";
+import {
+  Toast,
+  ToastAPI,
+  ToastCloseReason,
+  ToastConfig,
+  ToastEvent,
+  ToastFunction,
+  ToastHistoryEntry,
+  ToastInitialToast,
+  ToastOptions,
+  ToastPauseReason,
+  ToastPosition,
+  ToastPriority,
+  ToastProgressValue,
+  ToastPromiseMessage,
+  ToastStore,
+  ToastStoreSnapshot,
+  ToastTimerState,
+  ToastType,
+} from "./types";
+
+/**
+ * Configuración por defecto del sistema de toasts
+ */
+export const DEFAULT_CONFIG: Required<ToastConfig> = {
+  defaultDuration: 4000,
+  defaultPosition: "top-right",
+  defaultVariant: "filled",
+  maxToasts: 5,
+  maxTotalToasts: Infinity,
+  deduplicate: false,
+  queueStrategy: "drop-oldest",
+  maxQueue: 10,
+  pauseOnHover: true,
+  pauseOnFocusLoss: true,
+  showProgress: false,
+  swipeToDismiss: true,
+  swipeThreshold: 50,
+  swipeDirections: {},
+  hotkey: "Alt+T",
+  layout: "list",
+  animation: "slide",
+  reducedMotion: "user",
+  unstyled: false,
+  classNames: {},
+  theme: "light",
+  themes: {},
+  history: false,
+  flash: false,
+  rateLimit: false,
+  gap: 8,
+  offset: { x: 16, y: 16 },
+};
+
+/**
+ * Estado del timer de auto-dismiss de un toast
+ */
+interface ToastTimer {
+  /** Timeout en curso (null mientras está pausado) */
+  timeout: ReturnType<typeof setTimeout> | null;
+  /** Duración total configurada */
+  duration: number;
+  /** Tiempo restante al inicio del tramo actual */
+  remaining: number;
+  /** Timestamp en que empezó el tramo actual */
+  startedAt: number;
+  /** Motivos de pausa activos */
+  pausedBy: Set<ToastPauseReason>;
+}
+
+const EMPTY_SNAPSHOT: ToastStoreSnapshot = {
+  toasts: [],
+  queued: [],
+  announcements: {
+    polite: { key: 0, text: "" },
+    assertive: { key: 0, text: "" },
+  },
+  history: [],
+};
+
+/**
+ * Posición y toaster de un toast: los límites de `maxToasts` se aplican a cada combinación
+ */
+type ToastSlot = Pick<Toast, "position" | "toasterId">;
+
+/**
+ * Clave del hueco que ocupa un toast
+ */
+function getSlotKey(slot: ToastSlot): string {
+  return `${slot.toasterId ?? ""}|${slot.position}`;
+}
+
+/**
+ * Orden de las prioridades, de menor a mayor
+ */
+const PRIORITY_RANK: Record<ToastPriority, number> = { low: 0, normal: 1, high: 2, urgent: 3 };
+
+/**
+ * Toast que se descarta primero cuando falta hueco: el de menor prioridad y, a igual
+ * prioridad, el que aparece más tarde en la lista (el más antiguo si va del más nuevo
+ * al más antiguo). Los urgentes no se descartan nunca.
+ */
+function findEvictable(toasts: Toast[]): Toast | undefined {
+  return toasts.reduce<Toast | undefined>(
+    (candidate, t) =>
+      t.priority !== "urgent" && (!candidate || PRIORITY_RANK[t.priority] <= PRIORITY_RANK[candidate.priority])
+        ? t
+        : candidate,
+    undefined,
+  );
+}
+
+/**
+ * Inserta un toast delante del primero que cumple `before`, o al final si no hay ninguno
+ */
+function insertByPriority(toasts: Toast[], toast: Toast, before: (other: Toast) => boolean): Toast[] {
+  const index = toasts.findIndex(before);
+  const next = [...toasts];
+  next.splice(index === -1 ? next.length : index, 0, toast);
+  return next;
+}
+
+/**
+ * Genera un ID único para un toast
+ */
+function generateToastId(): string {
+  return `toast-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Calcula la clave con la que se agrupa un toast: su `groupKey` o, si la deduplicación
+ * está activa, su tipo y mensaje cuando el mensaje es texto
+ */
+function getGroupKey(
+  message: ReactNode,
+  type: ToastType,
+  groupKey: string | undefined,
+  deduplicate: boolean,
+): string | undefined {
+  if (groupKey) return groupKey;
+  if (deduplicate && (typeof message === "string" || typeof message === "number")) {
+    return `${type}:${message}`;
+  }
+  return undefined;
+}
+
+/**
+ * Resuelve el mensaje de un estado de `toast.promise`
+ */
+function resolvePromiseMessage<T>(message: ToastPromiseMessage<T>, value: T): ReactNode {
+  return typeof message === "function" ? message(value) : message;
+}
+
+/**
+ * Crea un store de toasts independiente de React
+ *
+ * @example
+ * ```ts
+ * import { createToastStore, createToastFunction } from 'complete-react-toast';
+ *
+ * const adminStore = createToastStore({ defaultPosition: 'bottom-left' });
+ * const adminToast = createToastFunction(adminStore);
+ *
+ * adminToast.success('Usuario creado');
+ * ```
+ */
+export function createToastStore(baseConfig: Partial<ToastConfig> = {}, name = "default"): ToastStore {
+  let snapshot = EMPTY_SNAPSHOT;
+  let currentConfig: Required<ToastConfig> = { ...DEFAULT_CONFIG, ...baseConfig };
+  const listeners = new Set<() => void>();
+  const eventListeners = new Set<(event: ToastEvent) => void>();
+  const timers = new Map<string, ToastTimer>();
+  // Toasts en animación de salida: timeout de respaldo y motivo con el que se cerraron
+  const removals = new Map<string, { timeout: ReturnType<typeof setTimeout>; reason: ToastCloseReason }>();
+  // Motivos de pausa globales (pérdida de foco, pestaña oculta) que afectan a todos los timers
+  const globalPause = new Set<ToastPauseReason>();
+  const rateLimiter = createRateLimiter();
+  // Toast de resumen de cada tipo o `groupKey` limitado y número de toasts que resume
+  const summaries = new Map<string, { id: string; count: number }>();
+  // Profundidad de `batch` y si hay cambios pendientes de notificar al terminar
+  let batchDepth = 0;
+  let pendingNotification = false;
+  // Clave de `localStorage` cuyo historial ya está cargado en memoria
+  let restoredStorageKey: string | undefined;
+
+  /**
+   * Publica un nuevo estado y notifica a los suscriptores (dentro de `batch`, al terminar)
+   */
+  const commit = (next: Partial<ToastStoreSnapshot>) => {
+    snapshot = { ...snapshot, ...next };
+    if (batchDepth > 0) {
+      pendingNotification = true;
+      return;
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  /**
+   * Agrupa varias operaciones en una sola notificación: un render en lugar de uno por cambio
+   */
+  const batch = <T>(fn: () => T): T => {
+    batchDepth++;
+    try {
+      return fn();
+    } finally {
+      batchDepth--;
+      if (batchDepth === 0 && pendingNotification) {
+        pendingNotification = false;
+        listeners.forEach((listener) => listener());
+      }
+    }
+  };
+
+  /**
+   * Notifica un evento de ciclo de vida a los suscriptores
+   */
+  const emit = (event: ToastEvent) => {
+    eventListeners.forEach((listener) => listener(event));
+  };
+
+  /**
+   * Añade al historial indicado las entradas persistidas en `storageKey` la primera vez que se
+   * usa esa clave; las entradas en memoria (más recientes) prevalecen sobre las persistidas
+   */
+  const withPersistedHistory = (history: ToastHistoryEntry[], storageKey: string): ToastHistoryEntry[] => {
+    if (restoredStorageKey === storageKey) return history;
+    restoredStorageKey = storageKey;
+
+    const current = new Set(history.map((entry) => entry.id));
+    const persisted = readPersistedHistory(storageKey).filter((entry) => !current.has(entry.id));
+    return persisted.length > 0 ? [...history, ...persisted] : history;
+  };
+
+  /**
+   * Publica un nuevo historial, recortado al límite, y lo persiste si hay `storageKey`.
+   * Si aún no se había cargado el persistido, se combina con él para no sobrescribirlo.
+   */
+  const setHistory = (history: ToastHistoryEntry[]) => {
+    const options = resolveHistoryOptions(currentConfig.history);
+    if (!options) return;
+
+    const merged = options.storageKey ? withPersistedHistory(history, options.storageKey) : history;
+    const next = merged.slice(0, options.limit);
+    commit({ history: next });
+    if (options.storageKey) writePersistedHistory(options.storageKey, next);
+  };
+
+  /**
+   * Ejecuta `onClose` con el motivo del cierre, lo guarda en el historial y emite el evento "close"
+   */
+  const notifyClose = (toast: Toast, reason: ToastCloseReason) => {
+    const entry = currentConfig.history ? createHistoryEntry(toast, reason) : null;
+    if (entry) setHistory([entry, ...snapshot.history.filter((e) => e.id !== entry.id)]);
+
+    toast.onClose?.(reason);
+    emit({ type: "close", toast, reason });
+  };
+
+  /**
+   * Anuncia un toast en la región viva que corresponde a su cortesía
+   */
+  const announce = (toast: Toast) => {
+    const text = getToastAnnouncement(toast);
+    const politeness = getToastPoliteness(toast);
+    if (!text || politeness === "off") return;
+
+    const { announcements } = snapshot;
+    commit({ announcements: { ...announcements, [politeness]: { key: announcements[politeness].key + 1, text } } });
+  };
+
+  /**
+   * Limpia el timer de un toast específico
+   */
+  const clearTimer = (id: string) => {
+    const timer = timers.get(id);
+    if (timer) {
+      if (timer.timeout) clearTimeout(timer.timeout);
+      timers.delete(id);
+    }
+  };
+
+  /**
+   * Arranca el tramo actual de un timer con su tiempo restante
+   */
+  const startTimer = (id: string, timer: ToastTimer) => {
+    timer.startedAt = Date.now();
+    timer.timeout = setTimeout(() => {
+      timers.delete(id);
+      const toast = snapshot.toasts.find((t) => t.id === id);
+      if (toast && !toast.removing) toast.onAutoClose?.(toast);
+      dismissToast(id, "timeout");
+    }, timer.remaining);
+  };
+
+  /**
+   * Configura el timer de auto-dismiss para un toast
+   */
+  const setTimer = (id: string, duration: number) => {
+    clearTimer(id);
+    if (duration <= 0) return;
+
+    const timer: ToastTimer = {
+      timeout: null,
+      duration,
+      remaining: duration,
+      startedAt: Date.now(),
+      pausedBy: new Set(globalPause),
+    };
+    timers.set(id, timer);
+
+    if (timer.pausedBy.size === 0) {
+      startTimer(id, timer);
+    }
+  };
+
+  /**
+   * Pausa el timer de un toast guardando el tiempo restante
+   */
+  const pauseTimer = (id: string, reason: ToastPauseReason = "hover") => {
+    const timer = timers.get(id);
+    if (!timer) return;
+
+    timer.pausedBy.add(reason);
+    if (timer.timeout) {
+      clearTimeout(timer.timeout);
+      timer.timeout = null;
+      timer.remaining = Math.max(0, timer.remaining - (Date.now() - timer.startedAt));
+    }
+  };
+
+  /**
+   * Reanuda el timer de un toast si no quedan motivos de pausa
+   */
+  const resumeTimer = (id: string, reason: ToastPauseReason = "hover") => {
+    const timer = timers.get(id);
+    if (!timer) return;
+
+    timer.pausedBy.delete(reason);
+    if (timer.pausedBy.size === 0 && !timer.timeout) {
+      startTimer(id, timer);
+    }
+  };
+
+  /**
+   * Calcula el tiempo restante de un toast en el instante actual
+   */
+  const getTimerState = (id: string): ToastTimerState => {
+    const timer = timers.get(id);
+    if (!timer) {
+      return { remaining: Infinity, progress: 1, paused: false };
+    }
+
+    const paused = !timer.timeout;
+    const remaining = paused ? timer.remaining : Math.max(0, timer.remaining - (Date.now() - timer.startedAt));
+
+    return { remaining, progress: remaining / timer.duration, paused };
+  };
+
+  /**
+   * Pausa todos los timers por un motivo global
+   */
+  const pauseAllTimers = (reason: ToastPauseReason) => {
+    globalPause.add(reason);
+    timers.forEach((_, id) => pauseTimer(id, reason));
+  };
+
+  /**
+   * Reanuda todos los timers pausados por un motivo global
+   */
+  const resumeAllTimers = (reason: ToastPauseReason) => {
+    globalPause.delete(reason);
+    timers.forEach((_, id) => resumeTimer(id, reason));
+  };
+
+  /**
+   * Toasts visibles (no en animación de salida), del más nuevo al más antiguo.
+   * Con un toast de referencia, solo los de su misma posición y toaster.
+   */
+  const getActiveToasts = (slot?: ToastSlot) =>
+    snapshot.toasts.filter((t) => (!slot || getSlotKey(t) === getSlotKey(slot)) && !t.removing);
+
+  /**
+   * Huecos libres en la posición y toaster de un toast, teniendo en cuenta el límite
+   * por posición y el global
+   */
+  const getFreeSlots = (slot: ToastSlot) =>
+    Math.min(
+      currentConfig.maxToasts - getActiveToasts(slot).length,
+      currentConfig.maxTotalToasts - getActiveToasts().length,
+    );
+
+  /**
+   * Muestra un toast y arranca su timer de auto-dismiss
+   */
+  const showToast = (toast: Toast) => {
+    // Encima de los de igual o menor prioridad y debajo de los de mayor prioridad
+    const rank = PRIORITY_RANK[toast.priority];
+    commit({ toasts: insertByPriority(snapshot.toasts, toast, (t) => PRIORITY_RANK[t.priority] <= rank) });
+    setTimer(toast.id, toast.duration);
+    announce(toast);
+    toast.onOpen?.(toast);
+    emit({ type: "open", toast });
+
+    if (toast.priority === "urgent") suppressLowPriority();
+  };
+
+  /**
+   * Si hay un toast urgente visible (los de prioridad baja se descartan mientras tanto)
+   */
+  const hasVisibleUrgent = () => snapshot.toasts.some((t) => t.priority === "urgent" && !t.removing);
+
+  /**
+   * Descarta los toasts de prioridad baja, visibles o en cola, al aparecer uno urgente
+   */
+  const suppressLowPriority = () => {
+    snapshot.toasts.filter((t) => t.priority === "low" && !t.removing).forEach((t) => dismissToast(t.id, "suppressed"));
+
+    const suppressed = snapshot.queued.filter((t) => t.priority === "low");
+    if (suppressed.length === 0) return;
+
+    commit({ queued: snapshot.queued.filter((t) => t.priority !== "low") });
+    suppressed.forEach((t) => notifyClose(t, "suppressed"));
+  };
+
+  /**
+   * Añade un toast a la cola por orden de prioridad y, dentro de cada prioridad, de llegada.
+   * Si la cola está llena, descarta el más antiguo de menor prioridad.
+   */
+  const enqueueToast = (toast: Toast) => {
+    const rank = PRIORITY_RANK[toast.priority];
+    const next = insertByPriority(snapshot.queued, toast, (t) => PRIORITY_RANK[t.priority] < rank);
+
+    const dropped: Toast[] = [];
+    while (next.length > currentConfig.maxQueue) {
+      const evicted = findEvictable([...next].reverse());
+      if (!evicted) break;
+      next.splice(next.indexOf(evicted), 1);
+      dropped.push(evicted);
+    }
+
+    commit({ queued: next });
+    dropped.forEach((t) => notifyClose(t, "overflow"));
+  };
+
+  /**
+   * Muestra los toasts en cola, por orden de llegada, mientras haya hueco en su posición
+   * y dentro del límite global
+   */
+  const promoteQueued = () => {
+    const active = getActiveToasts();
+    const perSlot = new Map<string, number>();
+    active.forEach((t) => perSlot.set(getSlotKey(t), (perSlot.get(getSlotKey(t)) ?? 0) + 1));
+    let total = active.length;
+
+    const promoted: Toast[] = [];
+    const remaining = snapshot.queued.filter((t) => {
+      const count = perSlot.get(getSlotKey(t)) ?? 0;
+      if (total < currentConfig.maxTotalToasts && count < currentConfig.maxToasts) {
+        promoted.push(t);
+        perSlot.set(getSlotKey(t), count + 1);
+        total++;
+        return false;
+      }
+      return true;
+    });
+
+    if (promoted.length === 0) return;
+
+    commit({ queued: remaining });
+    promoted.forEach(showToast);
+  };
+
+  /**
+   * Elimina definitivamente un toast del estado y cede su hueco a la cola. Si estaba en
+   * animación de salida, se usa el motivo con el que se cerró.
+   */
+  const removeToast = (id: string, reason: ToastCloseReason = "programmatic") => {
+    const toast = snapshot.toasts.find((t) => t.id === id);
+    if (!toast) return;
+
+    const removal = removals.get(id);
+    clearTimer(id);
+    clearTimeout(removal?.timeout);
+    removals.delete(id);
+    commit({ toasts: snapshot.toasts.filter((t) => t.id !== id) });
+    notifyClose(toast, removal?.reason ?? reason);
+    promoteQueued();
+  };
+
+  /**
+   * Incrementa el contador de un toast agrupado existente y reinicia su timer.
+   * Devuelve el ID del toast agrupado o undefined si no hay ninguno con esa clave.
+   */
+  const bumpGroupedToast = (groupKey: string, message: ReactNode): string | undefined => {
+    const bump = (t: Toast): Toast => (t.groupKey === groupKey ? { ...t, message, count: t.count + 1 } : t);
+
+    const visible = snapshot.toasts.find((t) => t.groupKey === groupKey && !t.removing);
+    if (visible) {
+      const bumped = bump(visible);
+      commit({ toasts: snapshot.toasts.map((t) => (t.id === visible.id ? bumped : t)) });
+      setTimer(visible.id, visible.duration);
+      announce(bumped);
+      return visible.id;
+    }
+
+    const waiting = snapshot.queued.find((t) => t.groupKey === groupKey);
+    if (waiting) {
+      commit({ queued: snapshot.queued.map((t) => (t.id === waiting.id ? bump(t) : t)) });
+      return waiting.id;
+    }
+
+    return undefined;
+  };
+
+  /**
+   * Construye un toast con los valores por defecto de la configuración, sin añadirlo al store
+   */
+  const buildToast = (message: ReactNode, options: ToastOptions, groupKey?: string): Toast => {
+    const config = currentConfig;
+    const priority = options.priority ?? "normal";
+    // Los urgentes no se cierran solos salvo que se indique una duración
+    const duration = options.duration ?? (priority === "urgent" ? 0 : config.defaultDuration);
+
+    return {
+      id: options.id || generateToastId(),
+      message,
+      type: options.type || "info",
+      duration,
+      dismissible: options.dismissible ?? true,
+      position: options.position || config.defaultPosition,
+      variant: options.variant || config.defaultVariant,
+      icon: options.icon,
+      title: options.title,
+      description: options.description,
+      action: options.action,
+      actions: options.actions,
+      progress: options.progress,
+      toasterId: options.toasterId,
+      priority,
+      data: options.data,
+      showProgress: options.showProgress ?? config.showProgress,
+      swipeToDismiss: options.swipeToDismiss ?? config.swipeToDismiss,
+      groupKey,
+      count: 1,
+      ariaLive: options.ariaLive,
+      announce: options.announce,
+      unstyled: options.unstyled ?? config.unstyled,
+      classNames: options.classNames,
+      onOpen: options.onOpen,
+      onAutoClose: options.onAutoClose,
+      onClose: options.onClose,
+      createdAt: Date.now(),
+      visible: true,
+      removing: false,
+    };
+  };
+
+  /**
+   * Crea un nuevo toast
+   */
+  const createToast = (message: ReactNode, options: ToastOptions = {}): string => {
+    const config = currentConfig;
+    const groupKey = getGroupKey(message, options.type || "info", options.groupKey, config.deduplicate);
+
+    // Agrupar con un toast existente en lugar de crear uno nuevo
+    if (groupKey) {
+      const groupedId = bumpGroupedToast(groupKey, message);
+      if (groupedId) return groupedId;
+    }
+
+    const toast = buildToast(message, options, groupKey);
+    const { id, priority } = toast;
+
+    // Mientras hay un toast urgente visible, los de prioridad baja no se muestran
+    if (priority === "low" && hasVisibleUrgent()) {
+      notifyClose(toast, "suppressed");
+      return id;
+    }
+
+    // Aplicar los límites por posición y global según la estrategia configurada
+    if (getFreeSlots(toast) <= 0) {
+      // Un toast urgente nunca se descarta: en cola pasa delante del resto
+      if (config.queueStrategy === "drop-newest" && priority !== "urgent") {
+        notifyClose(toast, "overflow");
+        return id;
+      }
+
+      if (config.queueStrategy === "queue") {
+        enqueueToast(toast);
+        return id;
+      }
+
+      // drop-oldest: se descartan los más antiguos de menor prioridad de la posición o, si lo
+      // que falta es hueco global, de cualquier posición. Nunca uno de mayor prioridad que el
+      // nuevo; si no queda ninguno, se descarta el nuevo salvo que sea urgente.
+      while (getFreeSlots(toast) <= 0) {
+        const candidates =
+          getActiveToasts(toast).length >= config.maxToasts ? getActiveToasts(toast) : getActiveToasts();
+        const evicted = findEvictable(candidates.filter((t) => PRIORITY_RANK[t.priority] <= PRIORITY_RANK[priority]));
+        if (!evicted) {
+          if (priority === "urgent" || candidates.length === 0) break;
+          notifyClose(toast, "overflow");
+          return id;
+        }
+        removeToast(evicted.id, "overflow");
+      }
+    }
+
+    showToast(toast);
+
+    return id;
+  };
+
+  /**
+   * Cuenta un toast descartado por `rateLimit` en el toast de resumen de su clave, creándolo
+   * si no está visible
+   */
+  const summarizeRateLimited = (key: string, options: ToastOptions, summary: (count: number) => ReactNode) => {
+    const current = summaries.get(key);
+    const summaryToast = current && [...snapshot.toasts, ...snapshot.queued].find((t) => t.id === current.id);
+
+    if (current && summaryToast && !summaryToast.removing) {
+      // Reiniciar su timer: sigue visible mientras dure la ráfaga
+      const count = current.count + 1;
+      update(current.id, summary(count), { duration: summaryToast.duration });
+      summaries.set(key, { id: current.id, count });
+      return;
+    }
+
+    const id = createToast(summary(1), {
+      type: options.type,
+      position: options.position,
+      toasterId: options.toasterId,
+    });
+    summaries.set(key, { id, count: 1 });
+  };
+
+  /**
+   * Crea un toast aplicando `rateLimit`: por encima del límite de su tipo o `groupKey`, el
+   * toast no se crea y se cuenta en el toast de resumen. Los urgentes no se limitan, ni los
+   * de carga: `toast.promise` y `toast.progress` los actualizan después con su resultado.
+   */
+  const add = (message: ReactNode, options: ToastOptions = {}): string => {
+    const rateLimit = resolveRateLimitOptions(currentConfig.rateLimit);
+    const type = options.type || "info";
+    if (!rateLimit || options.priority === "urgent" || type === "loading") return createToast(message, options);
+
+    const key = options.groupKey ? `group:${options.groupKey}` : `type:${type}`;
+    if (rateLimiter.allow(key, rateLimit)) return createToast(message, options);
+
+    if (rateLimit.summary) summarizeRateLimited(key, { ...options, type }, rateLimit.summary);
+
+    // Como con el resto de descartados, se notifica el cierre aunque el toast no llegue a crearse
+    const toast = buildToast(message, options, options.groupKey);
+    notifyClose(toast, "rateLimited");
+    return toast.id;
+  };
+
+  /**
+   * Cierra un toast específico
+   */
+  const dismissToast = (id: string, reason: ToastCloseReason = "programmatic") => {
+    clearTimer(id);
+
+    // Un toast en cola se descarta sin animación
+    const queuedToast = snapshot.queued.find((t) => t.id === id);
+    if (queuedToast) {
+      commit({ queued: snapshot.queued.filter((t) => t.id !== id) });
+      notifyClose(queuedToast, reason);
+      return;
+    }
+
+    const toast = snapshot.toasts.find((t) => t.id === id);
+    if (!toast || toast.removing) return;
+
+    commit({ toasts: snapshot.toasts.map((t) => (t.id === id ? { ...t, removing: true } : t)) });
+
+    // El componente lo elimina al terminar la animación de salida; el timeout es el respaldo
+    // para cuando no hay transición (renderizado headless, animación "none", sin montar)
+    const { duration } = resolveToastAnimation(currentConfig.animation, false);
+    removals.set(id, { timeout: setTimeout(() => removeToast(id), duration), reason });
+  };
+
+  /**
+   * Cierra todos los toasts, incluidos los que esperan en cola
+   */
+  const dismissAll = () => {
+    timers.forEach((timer) => timer.timeout && clearTimeout(timer.timeout));
+    timers.clear();
+    removals.forEach((removal) => clearTimeout(removal.timeout));
+
+    // Los que ya estaban saliendo conservan el motivo con el que se cerraron
+    const closed = [...snapshot.toasts, ...snapshot.queued].map(
+      (toast) => [toast, removals.get(toast.id)?.reason ?? "dismissAll"] as const,
+    );
+    removals.clear();
+    commit({ toasts: [], queued: [] });
+    closed.forEach(([toast, reason]) => notifyClose(toast, reason));
+  };
+
+  /**
+   * Actualiza un toast existente (visible o en cola)
+   */
+  const update = (id: string, message: ReactNode, options: Partial<ToastOptions> = {}) => {
+    const apply = (toast: Toast): Toast =>
+      toast.id === id
+        ? {
+            ...toast,
+            message,
+            ...options,
+            // Si se cambia la duración, reconfigurar timer
+            duration: options.duration ?? toast.duration,
+          }
+        : toast;
+
+    if (snapshot.queued.some((t) => t.id === id)) {
+      commit({ queued: snapshot.queued.map(apply) });
+      return;
+    }
+
+    const previous = snapshot.toasts.find((t) => t.id === id);
+    commit({ toasts: snapshot.toasts.map(apply) });
+
+    // Anunciar el nuevo contenido (p. ej. el resultado de `toast.promise`), pero no los
+    // cambios que no afectan al texto, como el avance de `toast.progress`
+    const updated = snapshot.toasts.find((t) => t.id === id);
+    if (updated && previous && getToastAnnouncement(updated) !== getToastAnnouncement(previous)) announce(updated);
+
+    // Reconfigurar timer si es necesario
+    if (options.duration !== undefined) {
+      setTimer(id, options.duration);
+    }
+  };
+
+  return {
+    name,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getSnapshot: () => snapshot,
+    getConfig: () => currentConfig,
+    configure: (config) => {
+      currentConfig = { ...DEFAULT_CONFIG, ...baseConfig, ...config };
+    },
+    add: (message, options) => batch(() => add(message, options)),
+    update,
+    dismiss: (id, reason) => batch(() => (id === undefined ? dismissAll() : dismissToast(id, reason))),
+    remove: (id) => {
+      if (snapshot.toasts.some((t) => t.id === id && t.removing)) removeToast(id);
+    },
+    pauseTimer,
+    resumeTimer,
+    getTimerState,
+    pauseAllTimers,
+    resumeAllTimers,
+    reset: () => {
+      timers.forEach((timer) => timer.timeout && clearTimeout(timer.timeout));
+      timers.clear();
+      removals.forEach((removal) => clearTimeout(removal.timeout));
+      removals.clear();
+      globalPause.clear();
+      rateLimiter.reset();
+      summaries.clear();
+      restoredStorageKey = undefined;
+      commit(EMPTY_SNAPSHOT);
+    },
+    batch,
+    markHistoryRead: (ids) =>
+      setHistory(snapshot.history.map((entry) => (!ids || ids.includes(entry.id) ? { ...entry, read: true } : entry))),
+    clearHistory: (ids) => setHistory(ids ? snapshot.history.filter((entry) => !ids.includes(entry.id)) : []),
+    restoreHistory: () => {
+      const options = resolveHistoryOptions(currentConfig.history);
+      if (!options?.storageKey) return;
+
+      const restored = withPersistedHistory(snapshot.history, options.storageKey);
+      if (restored !== snapshot.history) setHistory(restored);
+    },
+    subscribeEvents: (listener) => {
+      eventListeners.add(listener);
+      return () => {
+        eventListeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Estado inicial con los toasts indicados, sin timers ni anuncios. Es el que se renderiza
+ * en el servidor y el que usa el cliente para hidratar, de forma que ambos coincidan.
+ */
+export function createInitialSnapshot(
+  config: Partial<ToastConfig>,
+  initialToasts: ToastInitialToast[] = [],
+): ToastStoreSnapshot {
+  if (initialToasts.length === 0) return EMPTY_SNAPSHOT;
+
+  // Solo calcula la lista: los callbacks del ciclo de vida los ejecuta el store real al sembrarlos
+  const seeded = createToastStore(config);
+  initialToasts.forEach(({ message, ...options }) =>
+    seeded.add(message, { ...options, onOpen: undefined, onClose: undefined, onAutoClose: undefined }),
+  );
+
+  const { toasts, queued } = seeded.getSnapshot();
+  seeded.reset();
+  return { ...EMPTY_SNAPSHOT, toasts, queued };
+}
+
+/**
+ * Stores con nombre compartidos por toda la aplicación
+ */
+const stores = new Map<string, ToastStore>();
+
+/**
+ * Devuelve el store con el nombre indicado, creándolo la primera vez que se pide.
+ * Sin nombre devuelve el store global que usan `toast()` y el ToastProvider por defecto.
+ */
+export function getToastStore(name = "default"): ToastStore {
+  let store = stores.get(name);
+  if (!store) {
+    store = createToastStore({}, name);
+    stores.set(name, store);
+  }
+  return store;
+}
+
+/**
+ * Resuelve la prop `store` del provider o de `createToastFunction`
+ */
+export function resolveToastStore(store: ToastStore | string = "default"): ToastStore {
+  return typeof store === "string" ? getToastStore(store) : store;
+}
+
+/**
+ * Crea la API de toasts (`success`, `error`, `promise`...) sobre un store
+ */
+export function createToastAPI(store: ToastStore): Omit<ToastAPI, "toasts" | "queued"> {
+  /**
+   * Muestra un toast de carga y lo transforma en éxito o error cuando la promesa se
+   * resuelve, actualizando el mismo toast en lugar de crear uno nuevo
+   */
+  const promise: ToastAPI["promise"] = (promiseOrFactory, messages, options = {}) => {
+    const { loading: loadingOptions, success: successOptions, error: errorOptions, ...baseOptions } = options;
+    const { id: _id, ...sharedOptions } = baseOptions;
+
+    // La duración base es la del resultado: el toast de carga dura hasta que la promesa termina.
+    // Cada operación es única: una clave propia evita que se agrupe con otra carga igual
+    const toastId = baseOptions.id || generateToastId();
+    const id = store.add(messages.loading, {
+      ...baseOptions,
+      duration: 0,
+      ...loadingOptions,
+      id: toastId,
+      groupKey: toastId,
+      type: "loading",
+    });
+
+    const pending = typeof promiseOrFactory === "function" ? promiseOrFactory() : promiseOrFactory;
+
+    pending.then(
+      (value) => {
+        store.update(id, resolvePromiseMessage(messages.success, value), {
+          duration: store.getConfig().defaultDuration,
+          ...sharedOptions,
+          ...successOptions,
+          type: "success",
+        });
+      },
+      (error) => {
+        store.update(id, resolvePromiseMessage(messages.error, error), {
+          duration: store.getConfig().defaultDuration,
+          ...sharedOptions,
+          ...errorOptions,
+          type: "error",
+        });
+      },
+    );
+
+    return pending;
+  };
+
+  /**
+   * Muestra un toast con botón "Deshacer" y garantiza que `onCommit` u `onUndo` se ejecuta
+   * exactamente una vez, se cierre el toast como se cierre
+   */
+  const undoable: ToastAPI["undoable"] = ({ message, onCommit, onUndo, undoLabel = "Deshacer", ...options }) => {
+    let settled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    const settle = (undo: boolean) => {
+      if (settled) return;
+      settled = true;
+      unsubscribe?.();
+      if (typeof window !== "undefined") window.removeEventListener("beforeunload", handleBeforeUnload);
+
+      if (undo) {
+        onUndo?.();
+      } else {
+        onCommit();
+      }
+    };
+
+    // Al cerrar la página no hay tiempo para deshacer: se confirma
+    const handleBeforeUnload = () => settle(false);
+    if (typeof window !== "undefined") window.addEventListener("beforeunload", handleBeforeUnload);
+
+    // Cada operación es única: una clave propia evita que se agrupe con otro toast igual
+    const toastId = options.id || generateToastId();
+    const id = store.add(message, {
+      ...options,
+      id: toastId,
+      groupKey: toastId,
+      actions: [{ label: undoLabel, variant: "primary", onClick: () => settle(true) }],
+      onClose: (reason) => {
+        settle(false);
+        options.onClose?.(reason);
+      },
+    });
+
+    // `reset` (último provider desmontado) vacía el store sin llamar a onClose: se confirma
+    // en cuanto el toast desaparece del store por cualquier vía
+    const isPresent = () => {
+      const { toasts, queued } = store.getSnapshot();
+      return toasts.some((t) => t.id === id) || queued.some((t) => t.id === id);
+    };
+
+    if (!settled) {
+      unsubscribe = store.subscribe(() => {
+        if (!isPresent()) settle(false);
+      });
+    }
+
+    return id;
+  };
+
+  /**
+   * Muestra un toast de carga con progreso determinado. No se puede cerrar ni expira hasta
+   * que se resuelve: entonces pasa a éxito o error y se cierra con la duración por defecto.
+   */
+  const progress: ToastAPI["progress"] = (message, { value = 0, max = 100, ...options } = {}) => {
+    const clamp = (n: number): ToastProgressValue => ({ value: Math.min(Math.max(n, 0), max), max });
+
+    // Como en `promise`, cada progreso tiene su propia clave para no agruparse con otro igual
+    const toastId = options.id || generateToastId();
+    const id = store.add(message, {
+      ...options,
+      id: toastId,
+      groupKey: toastId,
+      type: "loading",
+      duration: 0,
+      dismissible: false,
+      progress: clamp(value),
+    });
+
+    const resolve = (type: "success" | "error", resolvedMessage: ReactNode, resolvedOptions?: Partial<ToastOptions>) =>
+      store.update(id, resolvedMessage, {
+        duration: store.getConfig().defaultDuration,
+        dismissible: true,
+        ...resolvedOptions,
+        type,
+        progress: undefined,
+      });
+
+    return {
+      id,
+      setProgress: (next, nextMessage) => {
+        const current = [...store.getSnapshot().toasts, ...store.getSnapshot().queued].find((t) => t.id === id);
+        if (!current || current.type !== "loading") return;
+
+        store.update(id, nextMessage ?? current.message, { progress: clamp(next) });
+      },
+      succeed: (resolvedMessage, resolvedOptions) => resolve("success", resolvedMessage, resolvedOptions),
+      fail: (resolvedMessage, resolvedOptions) => resolve("error", resolvedMessage, resolvedOptions),
+    };
+  };
+
+  return {
+    success: (message, options) => store.add(message, { ...options, type: "success" }),
+    error: (message, options) => store.add(message, { ...options, type: "error" }),
+    warning: (message, options) => store.add(message, { ...options, type: "warning" }),
+    info: (message, options) => store.add(message, { ...options, type: "info" }),
+    loading: (message, options) => store.add(message, { ...options, type: "loading" }),
+    custom: store.add,
+    promise,
+    undoable,
+    progress,
+    dismiss: store.dismiss,
+    dismissAll: () => store.dismiss(),
+    update: store.update,
+    batch: store.batch,
+  };
+}
+
+/**
+ * Crea una función `toast()` ligada a un store (instancia o nombre)
+ *
+ * @example
+ * ```ts
+ * const adminToast = createToastFunction('admin');
+ * adminToast.error('Sin permisos');
+ * ```
+ */
+export function createToastFunction(store: ToastStore | string = "default"): ToastFunction {
+  const target = resolveToastStore(store);
+  const fn = (message: ReactNode, options?: ToastOptions) => target.add(message, options);
+
+  return Object.assign(fn, createToastAPI(target), { store: target });
+}
+
+/**
+ * Función global para lanzar toasts desde fuera de los componentes de React
+ * (interceptores de axios, middlewares de Redux, mensajes de un service worker...).
+ * Usa el store global, al que se suscribe el ToastProvider por defecto.
+ *
+ * @example
+ * ```ts
+ * import { toast } from 'complete-react-toast';
+ *
+ * axios.interceptors.response.use(undefined, (error) => {
+ *   toast.error(error.message);
+ *   return Promise.reject(error);
+ * });
+ * ```
+ */
+export const toast: ToastFunction = createToastFunction();
@@ -0,0 +1,134 @@
+import React from "react";
+import { useMediaQuery } from "./media";
+import { ToastTheme, ToastThemeMode, ToastThemeTokens, ToastType, ToastVariant } from "./types";
+
+/**
+ * Tema completo: tokens para cada variante y tipo
+ */
+type ResolvedToastTheme = Record<ToastVariant, Record<ToastType, ToastThemeTokens>>;
+
+const TOAST_VARIANTS: ToastVariant[] = ["filled", "outlined", "minimal"];
+const TOAST_TYPES: ToastType[] = ["success", "error", "warning", "info", "loading"];
+const TOKEN_NAMES: (keyof ToastThemeTokens)[] = ["background", "color", "border"];
+
+/**
+ * Colores para cada tipo de toast en modo claro
+ */
+const LIGHT_THEME: ResolvedToastTheme = {
+  filled: {
+    success: { background: "#10b981", color: "#ffffff", border: "none" },
+    error: { background: "#ef4444", color: "#ffffff", border: "none" },
+    warning: { background: "#f59e0b", color: "#ffffff", border: "none" },
+    info: { background: "#3b82f6", color: "#ffffff", border: "none" },
+    loading: { background: "#6b7280", color: "#ffffff", border: "none" },
+  },
+  outlined: {
+    success: { background: "#ffffff", color: "#10b981", border: "1px solid #10b981" },
+    error: { background: "#ffffff", color: "#ef4444", border: "1px solid #ef4444" },
+    warning: { background: "#ffffff", color: "#f59e0b", border: "1px solid #f59e0b" },
+    info: { background: "#ffffff", color: "#3b82f6", border: "1px solid #3b82f6" },
+    loading: { background: "#ffffff", color: "#6b7280", border: "1px solid #6b7280" },
+  },
+  minimal: {
+    success: { background: "#f0fdf4", color: "#10b981", border: "1px solid #bbf7d0" },
+    error: { background: "#fef2f2", color: "#ef4444", border: "1px solid #fecaca" },
+    warning: { background: "#fffbeb", color: "#f59e0b", border: "1px solid #fed7aa" },
+    info: { background: "#eff6ff", color: "#3b82f6", border: "1px solid #bfdbfe" },
+    loading: { background: "#f9fafb", color: "#6b7280", border: "1px solid #d1d5db" },
+  },
+};
+
+/**
+ * Colores para cada tipo de toast en modo oscuro
+ */
+const DARK_THEME: ResolvedToastTheme = {
+  filled: {
+    success: { background: "#059669", color: "#ffffff", border: "none" },
+    error: { background: "#dc2626", color: "#ffffff", border: "none" },
+    warning: { background: "#d97706", color: "#ffffff", border: "none" },
+    info: { background: "#2563eb", color: "#ffffff", border: "none" },
+    loading: { background: "#4b5563", color: "#ffffff", border: "none" },
+  },
+  outlined: {
+    success: { background: "#111827", color: "#34d399", border: "1px solid #34d399" },
+    error: { background: "#111827", color: "#f87171", border: "1px solid #f87171" },
+    warning: { background: "#111827", color: "#fbbf24", border: "1px solid #fbbf24" },
+    info: { background: "#111827", color: "#60a5fa", border: "1px solid #60a5fa" },
+    loading: { background: "#111827", color: "#9ca3af", border: "1px solid #9ca3af" },
+  },
+  minimal: {
+    success: { background: "#052e16", color: "#4ade80", border: "1px solid #166534" },
+    error: { background: "#450a0a", color: "#f87171", border: "1px solid #991b1b" },
+    warning: { background: "#451a03", color: "#fbbf24", border: "1px solid #92400e" },
+    info: { background: "#172554", color: "#60a5fa", border: "1px solid #1e40af" },
+    loading: { background: "#1f2937", color: "#9ca3af", border: "1px solid #374151" },
+  },
+};
+
+const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+/**
+ * Nombre de la variable CSS con un token de una variante y tipo
+ * (p. ej. `--toast-success-filled-background`)
+ */
+function getThemeVariableName(variant: ToastVariant, type: ToastType, token: keyof ToastThemeTokens): string {
+  return `--toast-${type}-${variant}-${token}`;
+}
+
+/**
+ * Combina el tema por defecto del modo indicado con los tokens propios
+ */
+export function resolveToastTheme(scheme: "light" | "dark", overrides: ToastTheme = {}): ResolvedToastTheme {
+  const base = scheme === "dark" ? DARK_THEME : LIGHT_THEME;
+
+  return Object.fromEntries(
+    TOAST_VARIANTS.map((variant) => [
+      variant,
+      Object.fromEntries(TOAST_TYPES.map((type) => [type, { ...base[variant][type], ...overrides[variant]?.[type] }])),
+    ]),
+  ) as ResolvedToastTheme;
+}
+
+/**
+ * Variables CSS de un tema, para emitirlas en el container
+ */
+export function getThemeVariables(theme: ResolvedToastTheme): React.CSSProperties {
+  const variables: Record<string, string> = {};
+
+  TOAST_VARIANTS.forEach((variant) =>
+    TOAST_TYPES.forEach((type) =>
+      TOKEN_NAMES.forEach((token) => {
+        variables[getThemeVariableName(variant, type, token)] = theme[variant][type][token];
+      }),
+    ),
+  );
+
+  return variables as React.CSSProperties;
+}
+
+/**
+ * Valores `var()` con los que se pinta un toast. `--toast-background`, `--toast-color` y
+ * `--toast-border` permiten sobrescribir un toast concreto desde CSS; si no se definen,
+ * se usan las variables del container para su variante y tipo.
+ */
+export function getToastThemeTokens(variant: ToastVariant, type: ToastType): ToastThemeTokens {
+  const tokens = {} as ToastThemeTokens;
+
+  TOKEN_NAMES.forEach((token) => {
+    tokens[token] = `var(--toast-${token}, var(${getThemeVariableName(variant, type, token)}))`;
+  });
+
+  return tokens;
+}
+
+/**
+ * Resuelve el modo "system" siguiendo `prefers-color-scheme` y sus cambios
+ */
+export function useColorScheme(mode: ToastThemeMode): "light" | "dark" {
+  const prefersDark = useMediaQuery(DARK_SCHEME_QUERY, mode === "system");
+
+  if (mode === "system") {
+    return prefersDark ? "dark" : "light";
+  }
+  return mode;
+}
@@ -0,0 +1,64 @@
+import { ReactNode } from "react";
+import { ToastConfig, ToastRateLimitOptions } from "./types";
+
+/**
+ * Intervalo por defecto del límite de frecuencia
+ */
+const DEFAULT_RATE_LIMIT_INTERVAL = 1000;
+
+/**
+ * Mensaje por defecto del toast de resumen
+ */
+function getDefaultSummaryMessage(count: number): ReactNode {
+  return count === 1 ? "1 notificación más" : `${count} notificaciones más`;
+}
+
+/**
+ * Opciones de `rateLimit` con los valores por defecto aplicados
+ */
+export interface ResolvedRateLimitOptions {
+  limit: number;
+  interval: number;
+  summary: ((count: number) => ReactNode) | null;
+}
+
+/**
+ * Normaliza la opción `rateLimit` de la configuración (null si está desactivado)
+ */
+export function resolveRateLimitOptions(rateLimit: ToastConfig["rateLimit"]): ResolvedRateLimitOptions | null {
+  if (!rateLimit) return null;
+
+  const { limit, interval = DEFAULT_RATE_LIMIT_INTERVAL, summary = true }: ToastRateLimitOptions = rateLimit;
+  return {
+    limit,
+    interval,
+    summary: summary === true ? getDefaultSummaryMessage : summary || null,
+  };
+}
+
+/**
+ * Crea un limitador de ventana deslizante: como máximo `limit` llamadas aceptadas por
+ * clave en los últimos `interval` ms
+ */
+export function createRateLimiter() {
+  const windows = new Map<string, number[]>();
+
+  return {
+    /**
+     * Registra un intento y devuelve si se acepta
+     */
+    allow: (key: string, { limit, interval }: ResolvedRateLimitOptions): boolean => {
+      const now = Date.now();
+      const recent = (windows.get(key) ?? []).filter((time) => now - time < interval);
+      const allowed = recent.length < limit;
+
+      if (allowed) recent.push(now);
+      windows.set(key, recent);
+      return allowed;
+    },
+    /**
+     * Olvida todos los intentos registrados
+     */
+    reset: () => windows.clear(),
+  };
+}
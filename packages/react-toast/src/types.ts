@@ -1,4 +1,4 @@
-import { ReactNode } from "react";
+import { CSSProperties, ReactNode } from "react";
 
 /**
  * Tipos de toast disponibles
@@ -15,6 +15,165 @@ export type ToastPosition = "top-left" | "top-center" | "top-right" | "bottom-le
  */
 export type ToastVariant = "filled" | "outlined" | "minimal";
 
+/**
+ * Dirección en la que se puede deslizar un toast para cerrarlo
+ */
+export type ToastSwipeDirection = "left" | "right" | "up" | "down";
+
+/**
+ * Motivos por los que se puede pausar el timer de un toast.
+ * Un timer solo se reanuda cuando no queda ningún motivo activo.
+ */
+export type ToastPauseReason = "hover" | "swipe" | "focus" | "focus-loss" | "hidden" | "overflow";
+
+/**
+ * Motivo por el que se cerró un toast:
+ * - "timeout": se agotó su duración
+ * - "user": botón de cerrar, Escape o gesto de deslizar
+ * - "action": un botón de `actions`
+ * - "programmatic": `toast.dismiss(id)` desde el código
+ * - "overflow": descartado por el límite de toasts o de la cola
+ * - "dismissAll": `toast.dismissAll()`
+ * - "suppressed": toast de prioridad baja descartado mientras había uno urgente visible
+ * - "rateLimited": descartado por `rateLimit`
+ */
+export type ToastCloseReason =
+  "timeout" | "user" | "action" | "programmatic" | "overflow" | "dismissAll" | "suppressed" | "rateLimited";
+
+/**
+ * Prioridad de un toast. Los de más prioridad se muestran encima, adelantan en la cola y
+ * son los últimos en descartarse por límite. Los urgentes no se descartan nunca por límite
+ * ni se cierran solos (salvo con `duration`), y mientras hay uno visible los de prioridad
+ * baja no se muestran.
+ */
+export type ToastPriority = "low" | "normal" | "high" | "urgent";
+
+/**
+ * Modo de color de los toasts. "system" sigue `prefers-color-scheme`
+ */
+export type ToastThemeMode = "light" | "dark" | "system";
+
+/**
+ * Colores de un tipo de toast en una variante concreta
+ */
+export interface ToastThemeTokens {
+  /** Color de fondo */
+  background: string;
+  /** Color del texto, iconos y botones */
+  color: string;
+  /** Borde completo (p. ej. "1px solid #10b981" o "none") */
+  border: string;
+}
+
+/**
+ * Tokens de color por variante y tipo. Los valores omitidos usan el tema por defecto
+ */
+export type ToastTheme = {
+  [V in ToastVariant]?: { [T in ToastType]?: Partial<ToastThemeTokens> };
+};
+
+/**
+ * Cortesía con la que los lectores de pantalla anuncian un toast
+ */
+export type ToastAriaLive = "polite" | "assertive" | "off";
+
+/**
+ * Qué hacer cuando una posición ya tiene `maxToasts` toasts visibles:
+ * descartar los más antiguos, poner el nuevo en cola o descartar el nuevo
+ */
+export type ToastQueueStrategy = "drop-oldest" | "queue" | "drop-newest";
+
+/**
+ * Disposición de los toasts en un container: lista plana o pila colapsada que se expande
+ */
+export type ToastLayout = "list" | "stack";
+
+/**
+ * Estilo de un botón de acción: principal, secundario o de cancelar
+ */
+export type ToastActionVariant = "primary" | "secondary" | "cancel";
+
+/**
+ * Botón de acción de un toast
+ */
+export interface ToastAction {
+  /** Texto del botón */
+  label: string;
+  /** Callback al pulsar el botón */
+  onClick?: () => void;
+  /** Estilo del botón (por defecto "secondary") */
+  variant?: ToastActionVariant;
+  /** Si cerrar el toast al pulsar el botón (por defecto true) */
+  dismissOnClick?: boolean;
+  /** Etiqueta accesible cuando el texto no basta por sí solo (p. ej. "Deshacer borrado") */
+  ariaLabel?: string;
+}
+
+/**
+ * Animaciones de entrada y salida incluidas
+ */
+export type ToastAnimationPreset = "slide" | "fade" | "scale" | "none";
+
+/**
+ * Animación de entrada y salida de un toast. Los estilos describen el estado oculto
+ * del que parte al entrar y al que llega al salir; la transición los interpola.
+ */
+export interface ToastAnimation {
+  /** Estilos antes de entrar, según la posición del toast */
+  enter: (position: ToastPosition) => CSSProperties;
+  /** Estilos al salir, según la posición del toast */
+  exit: (position: ToastPosition) => CSSProperties;
+  /** Duración en milisegundos; también es el tiempo máximo de espera para eliminar el toast */
+  duration: number;
+  /** Curva de la transición */
+  easing?: string;
+}
+
+/**
+ * Cuándo reducir las animaciones: según `prefers-reduced-motion`, siempre o nunca
+ */
+export type ToastReducedMotion = "user" | "always" | "never";
+
+/**
+ * Clases CSS para cada parte de un toast
+ */
+export interface ToastClassNames {
+  /** Elemento raíz del toast */
+  toast?: string;
+  /** Icono */
+  icon?: string;
+  /** Contenedor del título, el mensaje y la descripción */
+  content?: string;
+  /** Título */
+  title?: string;
+  /** Mensaje */
+  message?: string;
+  /** Descripción secundaria */
+  description?: string;
+  /** Grupo de botones de acción */
+  actions?: string;
+  /** Cada botón de acción */
+  action?: string;
+  /** Botón de cerrar */
+  close?: string;
+  /** Contador de toasts agrupados */
+  badge?: string;
+  /** Barra de tiempo restante */
+  progress?: string;
+  /** Barra de progreso determinado de `toast.progress` */
+  progressbar?: string;
+}
+
+/**
+ * Progreso determinado de una operación (subida, exportación...)
+ */
+export interface ToastProgressValue {
+  /** Valor actual */
+  value: number;
+  /** Valor máximo (por defecto 100) */
+  max?: number;
+}
+
 /**
  * Configuración de un toast individual
  */
@@ -31,19 +190,96 @@ export interface ToastOptions {
   variant?: ToastVariant;
   /** Icono personalizado (sobrescribe el icono por defecto del tipo) */
   icon?: ReactNode;
+  /** Título en negrita que encabeza el toast */
+  title?: ReactNode;
+  /** Texto secundario bajo el mensaje */
+  description?: ReactNode;
   /** Acción personalizada (botón/link) */
   action?: {
     label: string;
     onClick: () => void;
   };
+  /** Botones de acción (p. ej. "Deshacer", "Ver" y "Cancelar") */
+  actions?: ToastAction[];
+  /** Progreso determinado, mostrado como barra con `role="progressbar"` */
+  progress?: ToastProgressValue;
+  /** Toaster de destino: solo lo muestra el `Toaster`/`ToastContainer` con el mismo `toasterId` */
+  toasterId?: string;
+  /** Prioridad del toast (por defecto "normal") */
+  priority?: ToastPriority;
   /** Datos adicionales que se pueden usar para identificar o filtrar toasts */
   data?: Record<string, any>;
-  /** Callback cuando el toast se cierra */
-  onClose?: () => void;
+  /** Si mostrar una barra con el tiempo restante antes del auto-dismiss */
+  showProgress?: boolean;
+  /** Si el toast se puede cerrar deslizándolo (requiere que sea dismissible) */
+  swipeToDismiss?: boolean;
+  /**
+   * Clave de agrupación: si ya hay un toast con la misma clave, se incrementa su contador
+   * y se reinicia su timer en lugar de crear uno nuevo
+   */
+  groupKey?: string;
+  /**
+   * Cortesía del anuncio para lectores de pantalla.
+   * Por defecto "assertive" para errores y "polite" para el resto.
+   */
+  ariaLive?: ToastAriaLive;
+  /**
+   * Anuncio en la región viva del provider: `false` lo desactiva y un texto sustituye al mensaje
+   * (útil cuando el mensaje es JSX)
+   */
+  announce?: boolean | string;
+  /** Si renderizar el toast sin estilos en línea (solo clases y atributos `data-*`) */
+  unstyled?: boolean;
+  /** Clases CSS para las partes del toast, añadidas a las de la configuración global */
+  classNames?: ToastClassNames;
+  /** Se ejecuta cuando el toast aparece en pantalla (no mientras espera en cola) */
+  onOpen?: (toast: Toast) => void;
+  /** Se ejecuta cuando el toast se cierra al agotar su duración, antes de `onClose` */
+  onAutoClose?: (toast: Toast) => void;
+  /** Callback cuando el toast se cierra, con el motivo del cierre */
+  onClose?: (reason: ToastCloseReason) => void;
   /** ID único del toast (se genera automáticamente si no se proporciona) */
   id?: string;
 }
 
+/**
+ * Toast con el que se inicializa el ToastProvider (p. ej. un mensaje flash renderizado en el servidor)
+ */
+export interface ToastInitialToast extends ToastOptions {
+  /** Mensaje del toast */
+  message: ReactNode;
+}
+
+/**
+ * Mensaje de un estado de `toast.promise`: contenido fijo o función que lo genera
+ * a partir del valor resuelto o del motivo del rechazo
+ */
+export type ToastPromiseMessage<T> = ReactNode | ((value: T) => ReactNode);
+
+/**
+ * Mensajes para cada estado de `toast.promise`
+ */
+export interface ToastPromiseMessages<T, E = any> {
+  /** Mensaje mientras la promesa está pendiente */
+  loading: ReactNode;
+  /** Mensaje cuando la promesa se resuelve */
+  success: ToastPromiseMessage<T>;
+  /** Mensaje cuando la promesa se rechaza */
+  error: ToastPromiseMessage<E>;
+}
+
+/**
+ * Opciones de `toast.promise`: opciones comunes más opciones específicas por estado
+ */
+export interface ToastPromiseOptions extends Omit<ToastOptions, "type"> {
+  /** Opciones aplicadas mientras la promesa está pendiente */
+  loading?: Omit<ToastOptions, "type" | "id">;
+  /** Opciones aplicadas cuando la promesa se resuelve */
+  success?: Omit<ToastOptions, "type" | "id">;
+  /** Opciones aplicadas cuando la promesa se rechaza */
+  error?: Omit<ToastOptions, "type" | "id">;
+}
+
 /**
  * Configuración global del sistema de toasts
  */
@@ -54,12 +290,62 @@ export interface ToastConfig {
   defaultPosition?: ToastPosition;
   /** Variante por defecto */
   defaultVariant?: ToastVariant;
-  /** Máximo número de toasts visibles al mismo tiempo */
+  /** Máximo número de toasts visibles al mismo tiempo en cada posición */
   maxToasts?: number;
+  /** Máximo número de toasts visibles al mismo tiempo entre todas las posiciones (sin límite por defecto) */
+  maxTotalToasts?: number;
+  /** Si agrupar toasts idénticos (mismo tipo y mensaje de texto) aunque no tengan `groupKey` */
+  deduplicate?: boolean;
+  /** Estrategia cuando se supera `maxToasts` en una posición */
+  queueStrategy?: ToastQueueStrategy;
+  /** Máximo número de toasts en cola (con `queueStrategy: "queue"`) */
+  maxQueue?: number;
   /** Si pausar los timers cuando el mouse está sobre un toast */
   pauseOnHover?: boolean;
   /** Si pausar los timers cuando la ventana pierde el foco */
   pauseOnFocusLoss?: boolean;
+  /** Si mostrar por defecto la barra de tiempo restante */
+  showProgress?: boolean;
+  /** Si los toasts se pueden cerrar deslizándolos */
+  swipeToDismiss?: boolean;
+  /** Distancia en píxeles que hay que deslizar un toast para cerrarlo */
+  swipeThreshold?: number;
+  /** Dirección del swipe por posición (por defecto hacia el borde más cercano) */
+  swipeDirections?: Partial<Record<ToastPosition, ToastSwipeDirection>>;
+  /**
+   * Atajo de teclado que mueve el foco al toast más reciente (p. ej. "Alt+T").
+   * `false` lo desactiva.
+   */
+  hotkey?: string | false;
+  /** Disposición de los toasts: lista o pila colapsada que se expande en hover/foco */
+  layout?: ToastLayout;
+  /** Animación de entrada y salida: un preset o una animación propia */
+  animation?: ToastAnimationPreset | ToastAnimation;
+  /** Cuándo sustituir la animación por un fundido corto */
+  reducedMotion?: ToastReducedMotion;
+  /** Si renderizar toasts y containers sin estilos en línea, para estilarlos con clases propias */
+  unstyled?: boolean;
+  /** Clases CSS para las partes de todos los toasts */
+  classNames?: ToastClassNames;
+  /** Modo de color: claro, oscuro o el del sistema */
+  theme?: ToastThemeMode;
+  /** Tokens de color propios para cada modo, combinados con los del tema por defecto */
+  themes?: Partial<Record<"light" | "dark", ToastTheme>>;
+  /**
+   * Historial de toasts cerrados para revisarlos más tarde (`useToastHistory`, `ToastInbox`).
+   * `true` lo activa con las opciones por defecto.
+   */
+  history?: boolean | ToastHistoryOptions;
+  /**
+   * Toasts "flash" que sobreviven a una navegación (`flashToast`, `withFlashToast`): el provider
+   * los muestra al montar y los descarta. `true` lo activa con las opciones por defecto.
+   */
+  flash?: boolean | ToastFlashConfig;
+  /**
+   * Límite de toasts por tipo (o por `groupKey`) en un intervalo. Los que lo superan no se
+   * muestran y se resumen en un único toast ("12 notificaciones más").
+   */
+  rateLimit?: ToastRateLimitOptions | false;
   /** Gap entre toasts en píxeles */
   gap?: number;
   /** Offset desde los bordes de la pantalla */
@@ -69,10 +355,154 @@ export interface ToastConfig {
   };
 }
 
+/**
+ * Opciones del historial de toasts
+ */
+export interface ToastHistoryOptions {
+  /** Máximo número de entradas; las más antiguas se descartan (por defecto 50) */
+  limit?: number;
+  /** Clave de `localStorage` donde persistir el historial. Sin ella, solo vive en memoria */
+  storageKey?: string;
+}
+
+/**
+ * Opciones del límite de frecuencia de toasts
+ */
+export interface ToastRateLimitOptions {
+  /** Máximo de toasts de un mismo tipo o `groupKey` por intervalo */
+  limit: number;
+  /** Duración del intervalo en ms (por defecto 1000) */
+  interval?: number;
+  /**
+   * Toast que resume los descartados. `false` lo desactiva; una función genera su mensaje
+   * a partir del número de descartados (por defecto "N notificaciones más").
+   */
+  summary?: boolean | ((count: number) => ReactNode);
+}
+
+/**
+ * Dónde busca el provider los toasts flash
+ */
+export interface ToastFlashConfig {
+  /** Clave de `sessionStorage` (por defecto "complete-react-toast:flash") */
+  storageKey?: string;
+  /** Parámetro de la URL del que leer toasts (`true` usa "toast"). Por defecto se ignora la URL */
+  param?: string | boolean;
+}
+
+/**
+ * Toast flash serializado: solo admite texto, porque viaja por `sessionStorage` o por la URL
+ */
+export interface ToastFlashMessage {
+  /** Mensaje del toast */
+  message: string;
+  /** Tipo del toast (por defecto "info") */
+  type?: Exclude<ToastType, "loading">;
+  /** Título (opcional) */
+  title?: string;
+  /** Descripción secundaria (opcional) */
+  description?: string;
+  /** Duración en ms */
+  duration?: number;
+  /** Datos adicionales; deben poder serializarse a JSON */
+  data?: Record<string, any>;
+  /** ID del toast */
+  id?: string;
+  /** Timestamp a partir del cual ya no se muestra */
+  expiresAt: number;
+}
+
+/**
+ * Opciones de `flashToast` y `withFlashToast`
+ */
+export interface ToastFlashOptions extends Omit<ToastFlashMessage, "message" | "expiresAt"> {
+  /** Tiempo en ms durante el que el toast sigue pendiente de mostrarse (por defecto 30000) */
+  ttl?: number;
+  /** Clave de `sessionStorage` en `flashToast`; debe coincidir con la del provider */
+  storageKey?: string;
+  /** Parámetro de la URL en `withFlashToast`; debe coincidir con el del provider */
+  param?: string;
+}
+
+/**
+ * Toast cerrado guardado en el historial
+ */
+export interface ToastHistoryEntry {
+  /** ID del toast */
+  id: string;
+  /** Tipo del toast */
+  type: ToastType;
+  /** Mensaje del toast */
+  message: ReactNode;
+  /** Título (opcional) */
+  title?: ReactNode;
+  /** Descripción secundaria (opcional) */
+  description?: ReactNode;
+  /** Datos adicionales del toast, útiles para filtrar */
+  data?: Record<string, any>;
+  /** Número de veces que se mostró si estaba agrupado */
+  count: number;
+  /** Timestamp cuando fue creado */
+  createdAt: number;
+  /** Timestamp cuando se cerró */
+  closedAt: number;
+  /** Motivo del cierre */
+  reason: ToastCloseReason;
+  /** Si el usuario ya lo ha visto */
+  read: boolean;
+}
+
+/**
+ * Filtro de entradas del historial: criterios combinados o una función propia
+ */
+export type ToastHistoryFilter =
+  | {
+      /** Tipo o tipos de toast */
+      type?: ToastType | ToastType[];
+      /** Valores que deben coincidir en `data` */
+      data?: Record<string, any>;
+      /** Solo las entradas sin leer */
+      unread?: boolean;
+    }
+  | ((entry: ToastHistoryEntry) => boolean);
+
+/**
+ * API del hook useToastHistory
+ */
+export interface ToastHistoryAPI {
+  /** Entradas que cumplen el filtro, de la más reciente a la más antigua */
+  entries: ToastHistoryEntry[];
+  /** Número de entradas sin leer que cumplen el filtro */
+  unreadCount: number;
+  /** Marca como leídas las entradas indicadas o, sin IDs, todas las del filtro */
+  markRead: (ids?: string | string[]) => void;
+  /** Elimina las entradas indicadas o, sin IDs, todas las del filtro */
+  clear: (ids?: string | string[]) => void;
+}
+
 /**
  * Estado interno de un toast
  */
-export interface Toast extends Required<Omit<ToastOptions, "onClose" | "data" | "icon" | "action">> {
+export interface Toast extends Required<
+  Omit<
+    ToastOptions,
+    | "onClose"
+    | "onOpen"
+    | "onAutoClose"
+    | "data"
+    | "icon"
+    | "action"
+    | "groupKey"
+    | "ariaLive"
+    | "announce"
+    | "classNames"
+    | "title"
+    | "description"
+    | "actions"
+    | "progress"
+    | "toasterId"
+  >
+> {
   /** ID único del toast */
   id: string;
   /** Mensaje del toast */
@@ -85,15 +515,89 @@ export interface Toast extends Required<Omit<ToastOptions, "onClose" | "data" |
   removing: boolean;
   /** Icono personalizado (opcional) */
   icon?: ReactNode;
+  /** Título (opcional) */
+  title?: ReactNode;
+  /** Descripción secundaria (opcional) */
+  description?: ReactNode;
   /** Acción personalizada (opcional) */
   action?: {
     label: string;
     onClick: () => void;
   };
+  /** Botones de acción (opcional) */
+  actions?: ToastAction[];
+  /** Progreso determinado (opcional) */
+  progress?: ToastProgressValue;
+  /** Toaster de destino (opcional) */
+  toasterId?: string;
   /** Datos adicionales */
   data?: Record<string, any>;
+  /** Clave de agrupación (opcional) */
+  groupKey?: string;
+  /** Número de veces que se ha mostrado este toast agrupado */
+  count: number;
+  /** Cortesía del anuncio (opcional, se deriva del tipo si no se indica) */
+  ariaLive?: ToastAriaLive;
+  /** Configuración del anuncio en la región viva (opcional) */
+  announce?: boolean | string;
+  /** Clases CSS propias del toast (opcional) */
+  classNames?: ToastClassNames;
+  /** Callback cuando aparece (opcional) */
+  onOpen?: (toast: Toast) => void;
+  /** Callback cuando se cierra por timeout (opcional) */
+  onAutoClose?: (toast: Toast) => void;
   /** Callback cuando se cierra */
-  onClose?: () => void;
+  onClose?: (reason: ToastCloseReason) => void;
+}
+
+/**
+ * Opciones de `toast.undoable`
+ */
+export interface ToastUndoableOptions extends Omit<ToastOptions, "actions"> {
+  /** Mensaje del toast */
+  message: ReactNode;
+  /** Confirma la operación cuando el toast se cierra sin deshacer */
+  onCommit: () => void;
+  /** Revierte la operación cuando se pulsa "Deshacer" */
+  onUndo?: () => void;
+  /** Texto del botón de deshacer (por defecto "Deshacer") */
+  undoLabel?: string;
+}
+
+/**
+ * Opciones de `toast.progress`
+ */
+export interface ToastProgressOptions extends Omit<ToastOptions, "type" | "progress"> {
+  /** Valor inicial (por defecto 0) */
+  value?: number;
+  /** Valor máximo (por defecto 100) */
+  max?: number;
+}
+
+/**
+ * Control de un toast de progreso devuelto por `toast.progress`
+ */
+export interface ToastProgressHandle {
+  /** ID del toast */
+  id: string;
+  /** Actualiza el progreso y, opcionalmente, el mensaje */
+  setProgress: (value: number, message?: ReactNode) => void;
+  /** Termina la operación con éxito: el toast pasa a "success" y se cierra con normalidad */
+  succeed: (message: ReactNode, options?: Partial<ToastOptions>) => void;
+  /** Termina la operación con error: el toast pasa a "error" y se cierra con normalidad */
+  fail: (message: ReactNode, options?: Partial<ToastOptions>) => void;
+}
+
+/**
+ * Estado del timer de auto-dismiss de un toast
+ */
+export interface ToastTimerState {
+  /** Tiempo restante en milisegundos (Infinity si el toast no se cierra solo) */
+  remaining: number;
+  /** Fracción de tiempo restante, de 1 (recién mostrado) a 0 (a punto de cerrarse) */
+  progress: number;
+  /** Si el timer está pausado */
+  paused: boolean;
 }
 
 /**
@@ -112,22 +616,212 @@ export interface ToastAPI {
   loading: (message: ReactNode, options?: Omit<ToastOptions, "type">) => string;
   /** Mostrar toast personalizado */
   custom: (message: ReactNode, options?: ToastOptions) => string;
-  /** Cerrar un toast específico */
-  dismiss: (id: string) => void;
+  /**
+   * Muestra un toast de carga que se transforma en éxito o error según el resultado
+   * de la promesa, manteniendo el mismo ID. Devuelve la promesa original.
+   */
+  promise: <T, E = any>(
+    promise: Promise<T> | (() => Promise<T>),
+    messages: ToastPromiseMessages<T, E>,
+    options?: ToastPromiseOptions,
+  ) => Promise<T>;
+  /**
+   * Muestra un toast con botón "Deshacer". `onUndo` se ejecuta al pulsarlo y `onCommit` cuando
+   * el toast se cierra de cualquier otra forma (timeout, cierre manual, `dismissAll`, desmontaje
+   * o cierre de la página). Exactamente uno de los dos se ejecuta, y una sola vez.
+   * Devuelve el ID del toast.
+   */
+  undoable: (options: ToastUndoableOptions) => string;
+  /**
+   * Muestra un toast de carga con progreso determinado que no se puede cerrar ni expira
+   * hasta que se resuelve con `succeed` o `fail`
+   */
+  progress: (message: ReactNode, options?: ToastProgressOptions) => ToastProgressHandle;
+  /** Cerrar un toast específico (motivo "programmatic" por defecto) */
+  dismiss: (id: string, reason?: ToastCloseReason) => void;
   /** Cerrar todos los toasts */
   dismissAll: () => void;
   /** Actualizar un toast existente */
   update: (id: string, message: ReactNode, options?: Partial<ToastOptions>) => void;
+  /** Lanza varios toasts con un único render, p. ej. al procesar un lote de mensajes */
+  batch: (fn: () => void) => void;
   /** Obtener lista actual de toasts */
   toasts: Toast[];
+  /** Toasts en cola esperando hueco para mostrarse */
+  queued: Toast[];
+}
+
+/**
+ * Atributos de accesibilidad del elemento raíz de un toast
+ */
+export interface ToastAriaProps {
+  /** Solo en los toasts que el provider no puede anunciar (p. ej. con un mensaje JSX) */
+  role?: "alert" | "status";
+  /** "off" cuando el provider anuncia el toast desde sus propias regiones vivas */
+  "aria-live": ToastAriaLive;
+  "aria-atomic"?: boolean;
+}
+
+/**
+ * Acciones disponibles para un toast renderizado con `renderToast`
+ */
+export interface ToastRenderHelpers {
+  /** Cierra el toast */
+  dismiss: () => void;
+  /** Pausa el timer de auto-dismiss */
+  pause: () => void;
+  /** Reanuda el timer de auto-dismiss */
+  resume: () => void;
 }
 
+/**
+ * Función que renderiza el contenido de un toast sustituyendo el markup por defecto
+ */
+export type ToastRenderFunction = (toast: Toast, helpers: ToastRenderHelpers) => ReactNode;
+
+/**
+ * Opciones de useToast
+ */
+export interface UseToastOptions {
+  /**
+   * Destino de los toasts: el provider antecesor con este `toasterId` o, si no hay ninguno,
+   * el `Toaster` con este `toasterId` dentro del provider más cercano
+   */
+  toasterId?: string;
+}
+
+/**
+ * API del hook useToaster para construir un Toaster propio
+ */
+export interface ToasterAPI {
+  /** Todos los toasts actuales */
+  toasts: Toast[];
+  /** Posiciones con al menos un toast */
+  positions: ToastPosition[];
+  /** Configuración actual */
+  config: Required<ToastConfig>;
+  /** Toasts de una posición concreta */
+  getToasts: (position: ToastPosition) => Toast[];
+  /** Cierra un toast (motivo "user" por defecto) */
+  dismiss: (id: string, reason?: ToastCloseReason) => void;
+  /** Pausa el timer de un toast */
+  pause: (id: string) => void;
+  /** Reanuda el timer de un toast */
+  resume: (id: string) => void;
+  /** Props para el elemento raíz de un toast: atributos ARIA y pausa en hover */
+  getToastProps: (toast: Toast) => ToastAriaProps & {
+    onMouseEnter?: () => void;
+    onMouseLeave?: () => void;
+  };
+}
+
+/**
+ * Último anuncio de una región viva; `key` cambia en cada anuncio para repetir textos idénticos
+ */
+export interface ToastAnnouncement {
+  key: number;
+  text: string;
+}
+
+/**
+ * Evento de ciclo de vida de un toast, emitido por el store
+ */
+export type ToastEvent = { type: "open"; toast: Toast } | { type: "close"; toast: Toast; reason: ToastCloseReason };
+
+/**
+ * Estado inmutable de un store de toasts
+ */
+export interface ToastStoreSnapshot {
+  /** Toasts visibles, del más nuevo al más antiguo */
+  toasts: Toast[];
+  /** Toasts en cola esperando hueco para mostrarse */
+  queued: Toast[];
+  /** Último anuncio de cada región viva */
+  announcements: Record<"polite" | "assertive", ToastAnnouncement>;
+  /** Toasts cerrados, del más reciente al más antiguo (vacío si el historial está desactivado) */
+  history: ToastHistoryEntry[];
+}
+
+/**
+ * Store de toasts independiente de React. Puede usarse desde cualquier parte de la
+ * aplicación (interceptores, middlewares, service workers) y el ToastProvider se
+ * suscribe a él para renderizar.
+ */
+export interface ToastStore {
+  /** Nombre del store ("default" para el store global) */
+  name: string;
+  /** Suscribe un listener a los cambios. Devuelve la función para desuscribirse */
+  subscribe: (listener: () => void) => () => void;
+  /** Estado actual; la referencia solo cambia cuando cambia el estado */
+  getSnapshot: () => ToastStoreSnapshot;
+  /** Configuración efectiva del store */
+  getConfig: () => Required<ToastConfig>;
+  /** Sustituye la configuración del store (se combina con la de creación y la configuración por defecto) */
+  configure: (config: Partial<ToastConfig>) => void;
+  /** Crea un toast y devuelve su ID */
+  add: (message: ReactNode, options?: ToastOptions) => string;
+  /** Actualiza un toast existente (visible o en cola) */
+  update: (id: string, message: ReactNode, options?: Partial<ToastOptions>) => void;
+  /** Cierra un toast con el motivo indicado ("programmatic" por defecto) o, sin ID, todos los toasts */
+  dismiss: (id?: string, reason?: ToastCloseReason) => void;
+  /** Elimina un toast en animación de salida sin esperar al timeout de respaldo */
+  remove: (id: string) => void;
+  /** Pausa el timer de auto-dismiss de un toast */
+  pauseTimer: (id: string, reason?: ToastPauseReason) => void;
+  /** Reanuda el timer de un toast con el tiempo restante */
+  resumeTimer: (id: string, reason?: ToastPauseReason) => void;
+  /** Lee el estado actual del timer de un toast */
+  getTimerState: (id: string) => ToastTimerState;
+  /** Pausa todos los timers por un motivo global */
+  pauseAllTimers: (reason: ToastPauseReason) => void;
+  /** Reanuda todos los timers pausados por un motivo global */
+  resumeAllTimers: (reason: ToastPauseReason) => void;
+  /** Vacía el store y cancela sus timers sin llamar a `onClose` */
+  reset: () => void;
+  /** Ejecuta varias operaciones notificando a los suscriptores una sola vez al terminar */
+  batch: (fn: () => void) => void;
+  /** Marca como leídas las entradas del historial indicadas o, sin IDs, todas */
+  markHistoryRead: (ids?: string[]) => void;
+  /** Elimina las entradas del historial indicadas o, sin IDs, todas */
+  clearHistory: (ids?: string[]) => void;
+  /** Carga el historial persistido en `storageKey`, combinándolo con el actual */
+  restoreHistory: () => void;
+  /** Suscribe un listener a los eventos de ciclo de vida. Devuelve la función para desuscribirse */
+  subscribeEvents: (listener: (event: ToastEvent) => void) => () => void;
+}
+
+/**
+ * Función `toast()` ligada a un store: crea un toast informativo (o del tipo indicado
+ * en las opciones) y expone el resto de la API como métodos
+ */
+export type ToastFunction = ((message: ReactNode, options?: ToastOptions) => string) &
+  Omit<ToastAPI, "toasts" | "queued"> & {
+    /** Store al que está ligada la función */
+    store: ToastStore;
+  };
+
 /**
  * Props del ToastProvider
  */
 export interface ToastProviderProps {
   /** Configuración global */
   config?: ToastConfig;
+  /**
+   * Store al que se suscribe (instancia o nombre). Por defecto, el store global de `toast()`;
+   * un provider anidado, o uno raíz si el global ya tiene otro provider, tiene uno propio.
+   */
+  store?: ToastStore | string;
+  /** Recibe los eventos de apertura y cierre de todos los toasts (p. ej. para analítica) */
+  onEvent?: (event: ToastEvent) => void;
+  /** Nombre del provider, para que `useToast({ toasterId })` lo encuentre desde providers anidados */
+  toasterId?: string;
+  /** Si delegar en el provider padre en lugar de crear un sistema de toasts propio */
+  forwardToParent?: boolean;
+  /**
+   * Toasts que se muestran desde el primer render, también en el servidor. Cada `id` se muestra
+   * una sola vez por carga de la página, aunque el provider se vuelva a montar.
+   */
+  initialToasts?: ToastInitialToast[];
   /** Elementos hijos */
   children: ReactNode;
 }
@@ -138,8 +832,70 @@ export interface ToastProviderProps {
 export interface ToastContainerProps {
   /** Posición específica para este container */
   position?: ToastPosition;
+  /** Muestra solo los toasts con este `toasterId` (sin él, los que no tienen `toasterId`) */
+  toasterId?: string;
+  /**
+   * Máximo de toasts que muestra este container. El resto sigue activo en el store,
+   * con el timer pausado, y aparece cuando se cierran los visibles.
+   */
+  max?: number;
+  /** Gap entre toasts en píxeles (por defecto el de la configuración) */
+  gap?: number;
+  /** Offset desde los bordes de la pantalla (por defecto el de la configuración) */
+  offset?: ToastConfig["offset"];
+  /** Si mostrar los toasts del más antiguo al más nuevo (solo en el layout "list") */
+  reverseOrder?: boolean;
+  /** Clase CSS adicional */
+  className?: string;
+  /** Renderiza cada toast con markup propio en lugar del markup por defecto */
+  renderToast?: ToastRenderFunction;
+}
+
+/**
+ * Destino del portal del Toaster: un elemento (también el `body` de un iframe), un
+ * shadow root o una función que lo devuelve una vez montado
+ */
+export type ToastPortalContainer = Element | DocumentFragment | (() => Element | DocumentFragment | null);
+
+/**
+ * Props del Toaster: salvo `container`, se aplican a cada uno de sus containers
+ */
+export interface ToasterProps extends Pick<
+  ToastContainerProps,
+  "toasterId" | "max" | "gap" | "offset" | "reverseOrder"
+> {
+  /** Clase CSS adicional para cada container */
+  className?: string;
+  /** Renderiza cada toast con markup propio en lugar del markup por defecto */
+  renderToast?: ToastRenderFunction;
+  /** Dónde montar el portal (por defecto `document.body`); `false` renderiza los containers en su sitio */
+  container?: ToastPortalContainer | false;
+}
+
+/**
+ * Acciones disponibles para una entrada renderizada con `renderEntry`
+ */
+export interface ToastInboxEntryHelpers {
+  /** Marca la entrada como leída */
+  markRead: () => void;
+  /** Elimina la entrada del historial */
+  remove: () => void;
+}
+
+/**
+ * Props del ToastInbox
+ */
+export interface ToastInboxProps {
+  /** Filtra las entradas que se muestran */
+  filter?: ToastHistoryFilter;
+  /** Título del panel (por defecto "Notificaciones") */
+  title?: ReactNode;
+  /** Contenido cuando no hay entradas */
+  emptyMessage?: ReactNode;
   /** Clase CSS adicional */
   className?: string;
+  /** Renderiza cada entrada con markup propio */
+  renderEntry?: (entry: ToastHistoryEntry, helpers: ToastInboxEntryHelpers) => ReactNode;
 }
 
 /**
@@ -149,7 +905,19 @@ export interface ToastItemProps {
   /** Datos del toast */
   toast: Toast;
   /** Función para cerrar el toast */
-  onDismiss: (id: string) => void;
+  onDismiss: (id: string, reason?: ToastCloseReason) => void;
+  /** Función para pausar el timer de auto-dismiss del toast */
+  onPause?: (id: string, reason?: ToastPauseReason) => void;
+  /** Función para reanudar el timer de auto-dismiss del toast */
+  onResume?: (id: string, reason?: ToastPauseReason) => void;
   /** Configuración global */
   config: Required<ToastConfig>;
+  /** Renderizado propio del contenido del toast */
+  render?: ToastRenderFunction;
+  /** Registra el elemento raíz del toast para la gestión del foco */
+  onRegister?: (id: string, element: HTMLElement | null) => void;
+  /** Elimina el toast cuando termina su animación de salida */
+  onRemove?: (id: string) => void;
+  /** Notifica la altura medida del toast (usada por el layout "stack") */
+  onHeightChange?: (id: string, height: number) => void;
 }
@@ -1,11 +1,26 @@
-import { ReactNode } from "react";
-import { useToastContext } from "./context";
-import { ToastAPI, ToastOptions } from "./types";
+"use client";
+
+import { ReactNode, useEffect, useMemo, useState } from "react";
+import { getToastAriaProps } from "./a11y";
+import { findToastContext, useToastContext } from "./context";
+import { matchesHistoryFilter } from "./history";
+import { createToastAPI } from "./store";
+import {
+  ToastAPI,
+  ToastHistoryAPI,
+  ToastHistoryFilter,
+  ToastOptions,
+  ToastPosition,
+  ToasterAPI,
+  ToastTimerState,
+  UseToastOptions,
+} from "./types";
 
 /**
  * Hook principal para manejar toasts de forma programática.
  * Proporciona una API completa para crear, actualizar y gestionar toasts.
  *
+ * @param options - `toasterId` para enviar los toasts a un provider antecesor o a un `Toaster` con nombre
  * @returns API del sistema de toasts
  *
  * @example
@@ -50,9 +65,25 @@ import { ToastAPI, ToastOptions } from "./types";
  * }
  * ```
  */
-export function useToast(): ToastAPI {
-  const { api } = useToastContext();
-  return api;
+export function useToast({ toasterId }: UseToastOptions = {}): ToastAPI {
+  const context = useToastContext();
+
+  // Un provider antecesor con ese nombre tiene prioridad; si no hay ninguno, los toasts
+  // del provider más cercano se marcan para el Toaster con ese `toasterId`
+  const target = (toasterId && findToastContext(context, toasterId)) || context;
+  const targetToaster = toasterId && target.toasterId !== toasterId ? toasterId : undefined;
+
+  const toasterApi = useMemo(() => {
+    if (!targetToaster) return null;
+
+    const { store } = target;
+    return createToastAPI({
+      ...store,
+      add: (message, options) => store.add(message, { toasterId: targetToaster, ...options }),
+    });
+  }, [target.store, targetToaster]);
+
+  return toasterApi ? { ...toasterApi, toasts: target.api.toasts, queued: target.api.queued } : target.api;
 }
 
 /**
@@ -202,9 +233,141 @@ export function useToastWithDefaults(defaultOptions: Partial<ToastOptions> = {})
     info: (message, options) => toast.info(message, { ...defaultOptions, ...options }),
     loading: (message, options) => toast.loading(message, { ...defaultOptions, ...options }),
     custom: (message, options) => toast.custom(message, { ...defaultOptions, ...options }),
+    promise: (promise, messages, options) => toast.promise(promise, messages, { ...defaultOptions, ...options }),
+    undoable: (options) => toast.undoable({ ...defaultOptions, ...options }),
+    progress: (message, options) => toast.progress(message, { ...defaultOptions, ...options }),
     dismiss: toast.dismiss,
     dismissAll: toast.dismissAll,
     update: toast.update,
+    batch: toast.batch,
     toasts: toast.toasts,
+    queued: toast.queued,
+  };
+}
+
+/**
+ * Hook para leer el tiempo restante de un toast.
+ * Se actualiza en cada frame mientras el timer corre y se congela mientras está pausado,
+ * lo que permite dibujar indicadores de progreso propios.
+ *
+ * @param id - ID del toast
+ * @returns Tiempo restante, fracción de progreso (1 → 0) y si está pausado
+ *
+ * @example
+ * ```tsx
+ * function Countdown({ id }: { id: string }) {
+ *   const { remaining, progress, paused } = useToastTimer(id);
+ *
+ *   return (
+ *     <progress value={progress} max={1} aria-label={`${Math.ceil(remaining / 1000)}s`}>
+ *       {paused ? 'En pausa' : null}
+ *     </progress>
+ *   );
+ * }
+ * ```
+ */
+export function useToastTimer(id: string): ToastTimerState {
+  const { getTimerState } = useToastContext();
+  const [state, setState] = useState<ToastTimerState>(() => getTimerState(id));
+
+  useEffect(() => {
+    let frame: number;
+
+    const tick = () => {
+      const next = getTimerState(id);
+      setState((prev) => (prev.remaining === next.remaining && prev.paused === next.paused ? prev : next));
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [id, getTimerState]);
+
+  return state;
+}
+
+/**
+ * Hook headless para construir un Toaster propio.
+ * Devuelve los toasts agrupables por posición y los manejadores de cierre y pausa,
+ * de forma que el markup quede completamente en manos de la aplicación.
+ *
+ * @param options - `toasterId` para incluir solo los toasts de ese Toaster (sin él, los que no tienen)
+ * @returns Toasts, posiciones y manejadores del sistema de toasts
+ *
+ * @example
+ * ```tsx
+ * function MyToaster() {
+ *   const { positions, getToasts, getToastProps, dismiss } = useToaster();
+ *
+ *   return positions.map((position) => (
+ *     <ol key={position} className={`toaster toaster--${position}`}>
+ *       {getToasts(position).map((toast) => (
+ *         <li key={toast.id} {...getToastProps(toast)} className="toast">
+ *           {toast.message}
+ *           <button onClick={() => dismiss(toast.id)}>Cerrar</button>
+ *         </li>
+ *       ))}
+ *     </ol>
+ *   ));
+ * }
+ * ```
+ */
+export function useToaster({ toasterId }: UseToastOptions = {}): ToasterAPI {
+  const { toasts: allToasts, config, api, pauseTimer, resumeTimer } = useToastContext();
+  const toasts = allToasts.filter((toast) => toast.toasterId === toasterId);
+
+  const positions = Array.from(new Set(toasts.map((toast) => toast.position))) as ToastPosition[];
+
+  return {
+    toasts,
+    positions,
+    config,
+    getToasts: (position) => toasts.filter((toast) => toast.position === position),
+    dismiss: (id, reason = "user") => api.dismiss(id, reason),
+    pause: (id) => pauseTimer(id),
+    resume: (id) => resumeTimer(id),
+    getToastProps: (toast) => ({
+      ...getToastAriaProps(toast),
+      onMouseEnter: config.pauseOnHover ? () => pauseTimer(toast.id) : undefined,
+      onMouseLeave: config.pauseOnHover ? () => resumeTimer(toast.id) : undefined,
+    }),
+  };
+}
+
+/**
+ * Hook headless para el historial de toasts (requiere `history` en la configuración).
+ * Devuelve las entradas que cumplen el filtro y las funciones para marcarlas como
+ * leídas o eliminarlas.
+ *
+ * @param filter - Criterios (`type`, `data`, `unread`) o función para filtrar las entradas
+ * @returns Entradas del historial, número de no leídas y acciones
+ *
+ * @example
+ * ```tsx
+ * function BillingNotifications() {
+ *   const { entries, unreadCount, markRead } = useToastHistory({ data: { area: 'billing' } });
+ *
+ *   return (
+ *     <details onToggle={() => markRead()}>
+ *       <summary>Facturación ({unreadCount})</summary>
+ *       {entries.map((entry) => <p key={entry.id}>{entry.message}</p>)}
+ *     </details>
+ *   );
+ * }
+ * ```
+ */
+export function useToastHistory(filter?: ToastHistoryFilter): ToastHistoryAPI {
+  const { history, store } = useToastContext();
+
+  const entries = filter ? history.filter((entry) => matchesHistoryFilter(entry, filter)) : history;
+  // Sin IDs, las acciones afectan solo a las entradas del filtro
+  const resolveIds = (ids?: string | string[]) =>
+    ids !== undefined ? [ids].flat() : filter ? entries.map((entry) => entry.id) : undefined;
+
+  return {
+    entries,
+    unreadCount: entries.filter((entry) => !entry.read).length,
+    markRead: (ids) => store.markHistoryRead(resolveIds(ids)),
+    clear: (ids) => store.clearHistory(resolveIds(ids)),
   };
 }
@@ -31,3 +31,19 @@ Object.defineProperty(window, "matchMedia", {
     dispatchEvent: vi.fn(),
   })),
 });
+
+// jsdom does not implement PointerEvent; swipe gestures need clientX/clientY and pointerId
+if (typeof window.PointerEvent === "undefined") {
+  class PointerEventPolyfill extends MouseEvent {
+    pointerId: number;
+    pointerType: string;
+
+    constructor(type: string, params: PointerEventInit = {}) {
+      super(type, params);
+      this.pointerId = params.pointerId ?? 1;
+      this.pointerType = params.pointerType ?? "touch";
+    }
+  }
+
+  Object.defineProperty(window, "PointerEvent", { writable: true, value: PointerEventPolyfill });
+}